@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "InvoiceSequence" (
+    "country" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InvoiceSequence_pkey" PRIMARY KEY ("country","period")
+);
+
+-- Seed sequences from existing invoice numbers ({CODE}-{YYYYMMDD}{SEQUENCE}) so numbers issued before this migration are never handed out again
+INSERT INTO "InvoiceSequence" ("country", "period", "lastValue", "updatedAt")
+SELECT
+    "country",
+    substring("invoiceNumber" from '-([0-9]{8})[0-9]+$'),
+    MAX(CAST(substring("invoiceNumber" from '-[0-9]{8}([0-9]+)$') AS INTEGER)),
+    CURRENT_TIMESTAMP
+FROM "Invoice"
+WHERE "invoiceNumber" ~ '-[0-9]{8}[0-9]+$'
+GROUP BY 1, 2;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "revision" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "InvoiceRevision" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "fileUrl" TEXT NOT NULL,
+    "pdfUrl" TEXT,
+    "data" JSONB NOT NULL,
+    "revisedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InvoiceRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InvoiceRevision_invoiceId_idx" ON "InvoiceRevision"("invoiceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoiceRevision_invoiceId_revision_key" ON "InvoiceRevision"("invoiceId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "InvoiceRevision" ADD CONSTRAINT "InvoiceRevision_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceRevision" ADD CONSTRAINT "InvoiceRevision_revisedById_fkey" FOREIGN KEY ("revisedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "InvoiceStatus" AS ENUM ('DRAFT', 'ISSUED', 'PAID', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "cancelReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "issuedAt" TIMESTAMP(3),
+ADD COLUMN     "paidAt" TIMESTAMP(3),
+ADD COLUMN     "status" "InvoiceStatus" NOT NULL DEFAULT 'DRAFT';
+
+-- Invoices generated in 'original' mode before statuses existed were sent out
+UPDATE "Invoice" SET "status" = 'ISSUED', "issuedAt" = "createdAt" WHERE "data"->>'mode' = 'original';
+
+-- CreateIndex
+CREATE INDEX "Invoice_status_idx" ON "Invoice"("status");
@@ -0,0 +1,75 @@
+-- CreateEnum
+CREATE TYPE "InvoiceLineType" AS ENUM ('VEHICLE', 'FREIGHT', 'DOCUMENTATION', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "totalAmount" DECIMAL(14,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "totalWeight" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "InvoiceLine" (
+    "id" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "type" "InvoiceLineType" NOT NULL DEFAULT 'VEHICLE',
+    "description" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "unitPrice" DECIMAL(14,2) NOT NULL,
+    "amount" DECIMAL(14,2) NOT NULL,
+    "weight" DECIMAL(12,2),
+    "carRecordId" TEXT,
+    "carVin" TEXT,
+    "carModel" TEXT,
+    "carYear" TEXT,
+    "carVolume" TEXT,
+    "carFuelType" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InvoiceLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InvoiceLine_carRecordId_idx" ON "InvoiceLine"("carRecordId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoiceLine_invoiceId_position_key" ON "InvoiceLine"("invoiceId", "position");
+
+-- AddForeignKey
+ALTER TABLE "InvoiceLine" ADD CONSTRAINT "InvoiceLine_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceLine" ADD CONSTRAINT "InvoiceLine_carRecordId_fkey" FOREIGN KEY ("carRecordId") REFERENCES "CarRecord"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: existing single-car invoices get one vehicle line built from their flat car columns.
+-- Prices and weights are free text; anything that is not a plain number after stripping counts as 0.
+INSERT INTO "InvoiceLine" ("id", "invoiceId", "position", "type", "description", "quantity", "unitPrice", "amount", "weight", "carRecordId", "carVin", "carModel", "carYear", "carVolume", "carFuelType")
+SELECT
+    "id" || '-1',
+    "id",
+    1,
+    'VEHICLE',
+    TRIM(COALESCE("carModel", '') || ' ' || COALESCE("carVin", '')),
+    1,
+    price."value",
+    price."value",
+    weight."value",
+    "carRecordId",
+    "carVin",
+    "carModel",
+    "carYear",
+    "carVolume",
+    "carFuelType"
+FROM "Invoice"
+CROSS JOIN LATERAL (
+    SELECT CASE WHEN regexp_replace(COALESCE("carPrice", ''), '[^0-9.]', '', 'g') ~ '^[0-9]+(\.[0-9]+)?$'
+        THEN regexp_replace("carPrice", '[^0-9.]', '', 'g')::DECIMAL(14,2) ELSE 0 END AS "value"
+) price
+CROSS JOIN LATERAL (
+    SELECT CASE WHEN regexp_replace(COALESCE("carWeight", ''), '[^0-9.]', '', 'g') ~ '^[0-9]+(\.[0-9]+)?$'
+        THEN regexp_replace("carWeight", '[^0-9.]', '', 'g')::DECIMAL(12,2) ELSE 0 END AS "value"
+) weight
+WHERE "carRecordId" IS NOT NULL OR "carVin" IS NOT NULL;
+
+UPDATE "Invoice" i
+SET "totalAmount" = l."amount", "totalWeight" = COALESCE(l."weight", 0)
+FROM "InvoiceLine" l
+WHERE l."invoiceId" = i."id";
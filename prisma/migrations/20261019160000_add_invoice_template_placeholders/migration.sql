@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "InvoiceTemplate" ADD COLUMN     "inspectedAt" TIMESTAMP(3),
+ADD COLUMN     "missingPlaceholders" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "placeholders" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "unknownPlaceholders" TEXT[] DEFAULT ARRAY[]::TEXT[];
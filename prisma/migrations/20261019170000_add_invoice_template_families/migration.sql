@@ -0,0 +1,87 @@
+-- CreateTable
+CREATE TABLE "InvoiceTemplateFamily" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InvoiceTemplateFamily_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InvoiceTemplateDefault" (
+    "country" TEXT NOT NULL,
+    "familyId" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InvoiceTemplateDefault_pkey" PRIMARY KEY ("country")
+);
+
+-- Every existing template becomes version 1 of its own family, named after the file.
+-- Repeated file names get the first free " (n)" suffix, which may itself be another file's name.
+DO $$
+DECLARE
+    t RECORD;
+    family_name TEXT;
+    n INTEGER;
+BEGIN
+    FOR t IN SELECT "id", "fileName", "uploadedById", "createdAt" FROM "InvoiceTemplate" ORDER BY "createdAt", "id" LOOP
+        family_name := t."fileName";
+        n := 1;
+        WHILE EXISTS (SELECT 1 FROM "InvoiceTemplateFamily" WHERE "name" = family_name) LOOP
+            n := n + 1;
+            family_name := t."fileName" || ' (' || n || ')';
+        END LOOP;
+
+        INSERT INTO "InvoiceTemplateFamily" ("id", "name", "createdById", "createdAt", "updatedAt")
+        VALUES (t."id", family_name, t."uploadedById", t."createdAt", CURRENT_TIMESTAMP);
+    END LOOP;
+END $$;
+
+-- AlterTable
+ALTER TABLE "InvoiceTemplate" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "familyId" TEXT,
+ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+UPDATE "InvoiceTemplate" SET "familyId" = "id";
+
+ALTER TABLE "InvoiceTemplate" ALTER COLUMN "familyId" SET NOT NULL,
+ALTER COLUMN "version" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "invoiceTemplateId" TEXT;
+
+-- Link past invoices to the template they were generated from
+UPDATE "Invoice" i
+SET "invoiceTemplateId" = t."id"
+FROM "InvoiceTemplate" t
+WHERE i."data"->>'invoiceTemplateUrl' = t."fileUrl";
+
+-- CreateIndex
+CREATE INDEX "Invoice_invoiceTemplateId_idx" ON "Invoice"("invoiceTemplateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoiceTemplate_familyId_version_key" ON "InvoiceTemplate"("familyId", "version");
+
+-- CreateIndex
+CREATE INDEX "InvoiceTemplateDefault_familyId_idx" ON "InvoiceTemplateDefault"("familyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoiceTemplateFamily_name_key" ON "InvoiceTemplateFamily"("name");
+
+-- CreateIndex
+CREATE INDEX "InvoiceTemplateFamily_createdById_idx" ON "InvoiceTemplateFamily"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_invoiceTemplateId_fkey" FOREIGN KEY ("invoiceTemplateId") REFERENCES "InvoiceTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceTemplate" ADD CONSTRAINT "InvoiceTemplate_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "InvoiceTemplateFamily"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceTemplateDefault" ADD CONSTRAINT "InvoiceTemplateDefault_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "InvoiceTemplateFamily"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceTemplateFamily" ADD CONSTRAINT "InvoiceTemplateFamily_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "consigneeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Consignee" (
+    "id" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "taxId" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "authorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Consignee_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Consignee_authorId_idx" ON "Consignee"("authorId");
+
+-- CreateIndex
+CREATE INDEX "Consignee_name_idx" ON "Consignee"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Consignee_country_taxId_key" ON "Consignee"("country", "taxId");
+
+-- CreateIndex
+CREATE INDEX "Invoice_consigneeId_idx" ON "Invoice"("consigneeId");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_consigneeId_fkey" FOREIGN KEY ("consigneeId") REFERENCES "Consignee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Consignee" ADD CONSTRAINT "Consignee_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,192 @@
+-- CreateEnum
+CREATE TYPE "InvoiceDatePattern" AS ENUM ('YYYYMMDD', 'YYMMDD', 'YYYYMM', 'YYYY');
+
+-- CreateEnum
+CREATE TYPE "TaxIdAlgorithm" AS ENUM ('KZ_IIN', 'RU_INN', 'UZ_TIN');
+
+-- CreateTable
+CREATE TABLE "Country" (
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "officialNames" JSONB NOT NULL,
+    "invoicePrefix" TEXT NOT NULL,
+    "invoiceDatePattern" "InvoiceDatePattern" NOT NULL DEFAULT 'YYYYMMDD',
+    "invoiceSeparator" TEXT NOT NULL DEFAULT '',
+    "invoicePadding" INTEGER NOT NULL DEFAULT 2,
+    "defaultPortInfoId" TEXT,
+    "defaultTemplateFamilyId" TEXT,
+    "taxIdLabel" TEXT NOT NULL DEFAULT 'Tax ID',
+    "taxIdAlgorithm" "TaxIdAlgorithm",
+    "taxIdPattern" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Country_pkey" PRIMARY KEY ("code")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Country_name_key" ON "Country"("name");
+
+-- AddForeignKey
+ALTER TABLE "Country" ADD CONSTRAINT "Country_defaultPortInfoId_fkey" FOREIGN KEY ("defaultPortInfoId") REFERENCES "PortInfo"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Country" ADD CONSTRAINT "Country_defaultTemplateFamilyId_fkey" FOREIGN KEY ("defaultTemplateFamilyId") REFERENCES "InvoiceTemplateFamily"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Countries previously hardcoded for invoice numbers and official names
+INSERT INTO "Country" ("code", "name", "officialNames", "invoicePrefix", "taxIdLabel", "taxIdAlgorithm", "taxIdPattern", "updatedAt") VALUES
+    ('RU', 'Russia', '{"en": "Russian Federation", "ru": "Российская Федерация"}', 'RU', 'INN', 'RU_INN', NULL, CURRENT_TIMESTAMP),
+    ('UZ', 'Uzbekistan', '{"en": "Republic of Uzbekistan", "ru": "Республика Узбекистан", "uz": "O''zbekiston Respublikasi"}', 'UZ', 'TIN', 'UZ_TIN', NULL, CURRENT_TIMESTAMP),
+    ('KZ', 'Kazakhstan', '{"en": "Republic of Kazakhstan", "ru": "Республика Казахстан", "kk": "Қазақстан Республикасы"}', 'KZ', 'IIN', 'KZ_IIN', NULL, CURRENT_TIMESTAMP),
+    ('KG', 'Kyrgyzstan', '{"en": "Kyrgyz Republic", "ru": "Кыргызская Республика", "ky": "Кыргыз Республикасы"}', 'KG', 'INN', NULL, '^\d{14}$', CURRENT_TIMESTAMP);
+
+-- Other countries already on invoices, sequences, template defaults or consignees keep working: each
+-- name is mapped to its ISO 3166-1 alpha-2 code and keeps the old fallback prefix (first two letters).
+-- Names missing from the map, or two names for one code, stop the migration so the data can be fixed first.
+CREATE TEMPORARY TABLE "_CountryIso" ("name" TEXT PRIMARY KEY, "code" TEXT NOT NULL);
+INSERT INTO "_CountryIso" ("name", "code") VALUES
+    ('Afghanistan', 'AF'),
+    ('Albania', 'AL'),
+    ('Algeria', 'DZ'),
+    ('Angola', 'AO'),
+    ('Argentina', 'AR'),
+    ('Armenia', 'AM'),
+    ('Australia', 'AU'),
+    ('Azerbaijan', 'AZ'),
+    ('Bahrain', 'BH'),
+    ('Bangladesh', 'BD'),
+    ('Belarus', 'BY'),
+    ('Bolivia', 'BO'),
+    ('Brazil', 'BR'),
+    ('Bulgaria', 'BG'),
+    ('Cambodia', 'KH'),
+    ('Cameroon', 'CM'),
+    ('Canada', 'CA'),
+    ('Chile', 'CL'),
+    ('China', 'CN'),
+    ('Colombia', 'CO'),
+    ('Costa Rica', 'CR'),
+    ('Cyprus', 'CY'),
+    ('Dominican Republic', 'DO'),
+    ('Ecuador', 'EC'),
+    ('Egypt', 'EG'),
+    ('El Salvador', 'SV'),
+    ('Estonia', 'EE'),
+    ('Ethiopia', 'ET'),
+    ('Georgia', 'GE'),
+    ('Germany', 'DE'),
+    ('Ghana', 'GH'),
+    ('Guatemala', 'GT'),
+    ('Honduras', 'HN'),
+    ('India', 'IN'),
+    ('Indonesia', 'ID'),
+    ('Iran', 'IR'),
+    ('Iraq', 'IQ'),
+    ('Israel', 'IL'),
+    ('Japan', 'JP'),
+    ('Jordan', 'JO'),
+    ('Kenya', 'KE'),
+    ('Kuwait', 'KW'),
+    ('Laos', 'LA'),
+    ('Latvia', 'LV'),
+    ('Lebanon', 'LB'),
+    ('Libya', 'LY'),
+    ('Lithuania', 'LT'),
+    ('Malaysia', 'MY'),
+    ('Mexico', 'MX'),
+    ('Moldova', 'MD'),
+    ('Mongolia', 'MN'),
+    ('Morocco', 'MA'),
+    ('Myanmar', 'MM'),
+    ('Nepal', 'NP'),
+    ('New Zealand', 'NZ'),
+    ('Nicaragua', 'NI'),
+    ('Nigeria', 'NG'),
+    ('Oman', 'OM'),
+    ('Pakistan', 'PK'),
+    ('Panama', 'PA'),
+    ('Paraguay', 'PY'),
+    ('Peru', 'PE'),
+    ('Philippines', 'PH'),
+    ('Poland', 'PL'),
+    ('Qatar', 'QA'),
+    ('Romania', 'RO'),
+    ('Saudi Arabia', 'SA'),
+    ('Senegal', 'SN'),
+    ('Singapore', 'SG'),
+    ('South Africa', 'ZA'),
+    ('South Korea', 'KR'),
+    ('Korea', 'KR'),
+    ('Sri Lanka', 'LK'),
+    ('Sudan', 'SD'),
+    ('Syria', 'SY'),
+    ('Taiwan', 'TW'),
+    ('Tajikistan', 'TJ'),
+    ('Tanzania', 'TZ'),
+    ('Thailand', 'TH'),
+    ('Tunisia', 'TN'),
+    ('Turkey', 'TR'),
+    ('Turkmenistan', 'TM'),
+    ('Uganda', 'UG'),
+    ('Ukraine', 'UA'),
+    ('United Arab Emirates', 'AE'),
+    ('UAE', 'AE'),
+    ('United Kingdom', 'GB'),
+    ('United States', 'US'),
+    ('USA', 'US'),
+    ('Uruguay', 'UY'),
+    ('Venezuela', 'VE'),
+    ('Vietnam', 'VN'),
+    ('Yemen', 'YE'),
+    ('Zambia', 'ZM'),
+    ('Zimbabwe', 'ZW');
+
+CREATE TEMPORARY TABLE "_CountryName" AS
+SELECT DISTINCT n."country" AS "name", m."code"
+FROM (
+    SELECT "country" FROM "Invoice"
+    UNION SELECT "country" FROM "InvoiceSequence"
+    UNION SELECT "country" FROM "InvoiceTemplateDefault"
+    UNION SELECT "country" FROM "Consignee"
+) n
+LEFT JOIN "_CountryIso" m ON LOWER(m."name") = LOWER(TRIM(n."country"))
+WHERE NOT EXISTS (SELECT 1 FROM "Country" c WHERE c."name" = n."country");
+
+DO $$
+DECLARE
+    unmapped TEXT;
+    ambiguous TEXT;
+BEGIN
+    SELECT string_agg("name", ', ' ORDER BY "name") INTO unmapped FROM "_CountryName" WHERE "code" IS NULL;
+    IF unmapped IS NOT NULL THEN
+        RAISE EXCEPTION 'No ISO country code for: %. Add them to "_CountryIso" or correct the data.', unmapped;
+    END IF;
+
+    SELECT string_agg(n."name", ', ' ORDER BY n."name") INTO ambiguous
+    FROM "_CountryName" n
+    WHERE EXISTS (SELECT 1 FROM "Country" c WHERE c."code" = n."code")
+       OR EXISTS (SELECT 1 FROM "_CountryName" o WHERE o."code" = n."code" AND o."name" <> n."name");
+    IF ambiguous IS NOT NULL THEN
+        RAISE EXCEPTION 'Country names share an ISO code with another country: %. Correct the data to use one name.', ambiguous;
+    END IF;
+END $$;
+
+INSERT INTO "Country" ("code", "name", "officialNames", "invoicePrefix", "updatedAt")
+SELECT "code", "name", jsonb_build_object('en', "name"), UPPER(SUBSTRING("name", 1, 2)), CURRENT_TIMESTAMP
+FROM "_CountryName";
+
+DROP TABLE "_CountryName";
+DROP TABLE "_CountryIso";
+
+-- Default templates move onto the country
+UPDATE "Country" c
+SET "defaultTemplateFamilyId" = d."familyId"
+FROM "InvoiceTemplateDefault" d
+WHERE d."country" = c."name";
+
+-- DropForeignKey
+ALTER TABLE "InvoiceTemplateDefault" DROP CONSTRAINT "InvoiceTemplateDefault_familyId_fkey";
+
+-- DropTable
+DROP TABLE "InvoiceTemplateDefault";
@@ -0,0 +1,88 @@
+-- AlterTable
+ALTER TABLE "CarRecord" ADD COLUMN     "engineCc" INTEGER,
+ADD COLUMN     "manufactureMonth" INTEGER,
+ADD COLUMN     "manufactureYear" INTEGER,
+ADD COLUMN     "priceAmount" DECIMAL(14,2),
+ADD COLUMN     "priceCurrency" TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN     "weightKg" DECIMAL(10,2);
+
+-- CreateTable
+CREATE TABLE "CarRecordConversionIssue" (
+    "id" TEXT NOT NULL,
+    "carRecordId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CarRecordConversionIssue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CarRecordConversionIssue_carRecordId_field_key" ON "CarRecordConversionIssue"("carRecordId", "field");
+
+-- AddForeignKey
+ALTER TABLE "CarRecordConversionIssue" ADD CONSTRAINT "CarRecordConversionIssue_carRecordId_fkey" FOREIGN KEY ("carRecordId") REFERENCES "CarRecord"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Convert the common legacy spellings, within the same plausibility bounds as src/lib/car-record-fields.ts:
+-- "1998", "1,998 cc", "2.0L"; "1540", "1,540 kg"; "$15,000", "15000000원", "15000"; "2021", "2021.03", "2021년 03월", "202103"
+
+-- Engine displacement in cc
+UPDATE "CarRecord" SET "engineCc" = v."cc"
+FROM (
+    SELECT "id", CASE
+        WHEN "engine_cc" ~* '^\s*([0-9]{1,5}|[0-9]{1,2},[0-9]{3})\s*(cc)?\s*$' THEN regexp_replace("engine_cc", '[^0-9]', '', 'g')::INTEGER
+        WHEN "engine_cc" ~* '^\s*[0-9]{1,2}(\.[0-9]+)?\s*l\s*$' THEN ROUND(substring("engine_cc" from '[0-9.]+')::NUMERIC * 1000)::INTEGER
+      END AS "cc"
+    FROM "CarRecord"
+) v
+WHERE "CarRecord"."id" = v."id" AND v."cc" BETWEEN 50 AND 20000;
+
+-- Curb weight in kg
+UPDATE "CarRecord" SET "weightKg" = v."kg"
+FROM (
+    SELECT "id", CASE
+        WHEN "weight" ~* '^\s*([0-9]{1,6}|[0-9]{1,3},[0-9]{3})(\.[0-9]+)?\s*(kg)?\s*$' THEN ROUND(replace(substring("weight" from '[0-9][0-9,.]*'), ',', '')::NUMERIC, 2)
+      END AS "kg"
+    FROM "CarRecord"
+) v
+WHERE "CarRecord"."id" = v."id" AND v."kg" BETWEEN 300 AND 100000;
+
+-- Price; amounts of 1,000,000 or more that name no currency are most likely won and left for a person to confirm
+UPDATE "CarRecord" SET "priceAmount" = v."amount", "priceCurrency" = COALESCE(v."currency", "CarRecord"."priceCurrency")
+FROM (
+    SELECT "id",
+        CASE
+            WHEN "price" ~* '^\s*(\$|usd|₩|krw)?\s*([0-9]{1,12}|[0-9]{1,3}(,[0-9]{3}){1,3})(\.[0-9]{1,2})?\s*(\$|usd|₩|krw|원)?\s*$'
+            THEN ROUND(replace(substring("price" from '[0-9][0-9,.]*'), ',', '')::NUMERIC, 2)
+        END AS "amount",
+        CASE
+            WHEN "price" ~* '\$|usd' THEN 'USD'
+            WHEN "price" ~* '₩|krw|원' THEN 'KRW'
+        END AS "currency"
+    FROM "CarRecord"
+) v
+WHERE "CarRecord"."id" = v."id" AND v."amount" IS NOT NULL AND (v."currency" IS NOT NULL OR v."amount" < 1000000);
+
+-- Year and month of manufacture
+UPDATE "CarRecord" SET "manufactureYear" = v."year", "manufactureMonth" = CASE WHEN v."month" BETWEEN 1 AND 12 THEN v."month" END
+FROM (
+    SELECT "id", m[1]::INTEGER AS "year", COALESCE(m[2], m[3])::INTEGER AS "month"
+    FROM (
+        SELECT "id", regexp_match("manufacture_date", '^\s*((?:19|20)[0-9]{2})(?:\s*(?:[./-]|년)\s*([0-9]{1,2})\s*월?|([0-9]{2}))?\s*$') AS m
+        FROM "CarRecord"
+    ) d
+    WHERE m IS NOT NULL
+) v
+WHERE "CarRecord"."id" = v."id" AND v."year" BETWEEN 1900 AND EXTRACT(YEAR FROM CURRENT_DATE) + 1;
+
+-- Report what is left; `npm run convert-car-records` reads the rest with the API's parsers and updates this report
+INSERT INTO "CarRecordConversionIssue" ("id", "carRecordId", "field", "value")
+SELECT gen_random_uuid()::TEXT, "id", f."field", f."value"
+FROM "CarRecord"
+CROSS JOIN LATERAL (VALUES
+    ('engine_cc', "engine_cc", "engineCc" IS NULL),
+    ('weight', "weight", "weightKg" IS NULL),
+    ('price', "price", "priceAmount" IS NULL),
+    ('manufacture_date', "manufacture_date", "manufactureYear" IS NULL)
+) AS f("field", "value", "unconverted")
+WHERE f."unconverted";
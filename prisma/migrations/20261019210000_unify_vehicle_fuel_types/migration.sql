@@ -0,0 +1,37 @@
+-- Fuel types are stored as the lower-case codes of src/lib/vehicle-vocabulary.ts, as collections already do
+ALTER TABLE "CarRecord" ALTER COLUMN "fuel_type" SET DEFAULT 'gasoline';
+
+-- Car records only accepted Hybrid, Diesel and Gasoline; older free-text values are matched on common spellings
+UPDATE "CarRecord" SET "fuel_type" = CASE
+    WHEN lower(trim("fuel_type")) IN ('gasoline', 'petrol', 'gas', 'бензин', '휘발유', '가솔린') THEN 'gasoline'
+    WHEN lower(trim("fuel_type")) IN ('diesel', 'дизель', '경유', '디젤') THEN 'diesel'
+    WHEN lower(trim("fuel_type")) IN ('hybrid', 'гибрид', '하이브리드') THEN 'hybrid'
+    WHEN lower(trim("fuel_type")) IN ('electric', 'ev', 'электро', '전기') THEN 'electric'
+    WHEN lower(trim("fuel_type")) IN ('lpg', 'lpi', 'газ') THEN 'lpg'
+    ELSE "fuel_type"
+  END;
+
+-- Drafts and their lines copy the car record's fuel type and are regenerated from it anyway; issued, paid
+-- and cancelled invoices keep the values they were sent with, which fuelTypeLabel still reads as aliases
+UPDATE "Invoice" SET "carFuelType" = CASE
+    WHEN lower(trim("carFuelType")) IN ('gasoline', 'petrol', 'gas', 'бензин', '휘발유', '가솔린') THEN 'gasoline'
+    WHEN lower(trim("carFuelType")) IN ('diesel', 'дизель', '경유', '디젤') THEN 'diesel'
+    WHEN lower(trim("carFuelType")) IN ('hybrid', 'гибрид', '하이브리드') THEN 'hybrid'
+    WHEN lower(trim("carFuelType")) IN ('electric', 'ev', 'электро', '전기') THEN 'electric'
+    WHEN lower(trim("carFuelType")) IN ('lpg', 'lpi', 'газ') THEN 'lpg'
+    ELSE "carFuelType"
+  END
+WHERE "carFuelType" IS NOT NULL AND "status" = 'DRAFT';
+
+UPDATE "InvoiceLine" SET "carFuelType" = CASE
+    WHEN lower(trim("carFuelType")) IN ('gasoline', 'petrol', 'gas', 'бензин', '휘발유', '가솔린') THEN 'gasoline'
+    WHEN lower(trim("carFuelType")) IN ('diesel', 'дизель', '경유', '디젤') THEN 'diesel'
+    WHEN lower(trim("carFuelType")) IN ('hybrid', 'гибрид', '하이브리드') THEN 'hybrid'
+    WHEN lower(trim("carFuelType")) IN ('electric', 'ev', 'электро', '전기') THEN 'electric'
+    WHEN lower(trim("carFuelType")) IN ('lpg', 'lpi', 'газ') THEN 'lpg'
+    ELSE "carFuelType"
+  END
+WHERE "carFuelType" IS NOT NULL
+  AND "invoiceId" IN (SELECT "id" FROM "Invoice" WHERE "status" = 'DRAFT');
+
+-- Car record values none of these match are reported and converted by `npm run convert-car-records`
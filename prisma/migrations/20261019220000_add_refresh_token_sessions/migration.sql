@@ -0,0 +1,35 @@
+-- Sessions held raw tokens and were never written; they now describe one signed-in device each
+DELETE FROM "Session";
+
+-- AlterTable
+ALTER TABLE "Session" DROP COLUMN "accessToken",
+DROP COLUMN "refreshToken",
+ADD COLUMN     "ipAddress" TEXT,
+ADD COLUMN     "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "revokedAt" TIMESTAMP(3),
+ADD COLUMN     "userAgent" TEXT;
+
+-- AlterTable
+ALTER TABLE "RefreshToken" ADD COLUMN     "sessionId" TEXT;
+
+-- Each refresh token still in use becomes its own session, keeping existing sign-ins alive
+DELETE FROM "RefreshToken" WHERE "revokedAt" IS NOT NULL OR "expiresAt" <= CURRENT_TIMESTAMP;
+
+INSERT INTO "Session" ("id", "userId", "expiresAt", "lastUsedAt", "createdAt")
+SELECT "id", "userId", "expiresAt", "createdAt", "createdAt" FROM "RefreshToken";
+
+UPDATE "RefreshToken" SET "sessionId" = "id";
+
+ALTER TABLE "RefreshToken" ALTER COLUMN "sessionId" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RefreshToken_hashedToken_key" ON "RefreshToken"("hashedToken");
+
+-- CreateIndex
+CREATE INDEX "RefreshToken_sessionId_idx" ON "RefreshToken"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "Session_userId_idx" ON "Session"("userId");
+
+-- AddForeignKey
+ALTER TABLE "RefreshToken" ADD CONSTRAINT "RefreshToken_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "UserInvitation" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "Role" NOT NULL DEFAULT 'USER',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "invitedById" TEXT,
+    "acceptedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserInvitation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserInvitation_email_key" ON "UserInvitation"("email");
+
+-- CreateIndex
+CREATE INDEX "UserInvitation_invitedById_idx" ON "UserInvitation"("invitedById");
+
+-- AddForeignKey
+ALTER TABLE "UserInvitation" ADD CONSTRAINT "UserInvitation_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- A magic link sent to an invited address belongs to the invitation until it is followed
+ALTER TABLE "MagicLinkToken" ALTER COLUMN "userId" DROP NOT NULL,
+ADD COLUMN     "invitationId" TEXT,
+ADD CONSTRAINT "MagicLinkToken_owner_check" CHECK ("userId" IS NOT NULL OR "invitationId" IS NOT NULL);
+
+-- CreateIndex
+CREATE INDEX "MagicLinkToken_invitationId_idx" ON "MagicLinkToken"("invitationId");
+
+-- AddForeignKey
+ALTER TABLE "MagicLinkToken" ADD CONSTRAINT "MagicLinkToken_invitationId_fkey" FOREIGN KEY ("invitationId") REFERENCES "UserInvitation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
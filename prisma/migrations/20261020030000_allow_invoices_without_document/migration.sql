@@ -0,0 +1,6 @@
+-- The document is rendered after the invoice number is committed, so an invoice briefly has none
+-- (and keeps none when rendering fails and it is cancelled)
+ALTER TABLE "Invoice" ALTER COLUMN "fileUrl" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "InvoiceRevision" ALTER COLUMN "fileUrl" DROP NOT NULL;
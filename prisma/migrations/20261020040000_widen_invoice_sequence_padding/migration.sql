@@ -0,0 +1,5 @@
+-- Sequences are padded to 3 digits so the 100th invoice of a day can be numbered. Numbers already
+-- issued keep their 2 digits; they stay distinct from new ones because the date part has a fixed length.
+ALTER TABLE "Country" ALTER COLUMN "invoicePadding" SET DEFAULT 3;
+
+UPDATE "Country" SET "invoicePadding" = 3, "updatedAt" = CURRENT_TIMESTAMP WHERE "invoicePadding" < 3;
@@ -0,0 +1,23 @@
+-- VINs are stored the way the API now writes them: upper case, without spaces or dashes
+-- (normalizeVin in src/lib/vin.ts), so exact lookups and the unique constraint also find older records.
+-- Records that would end up with the same VIN are the same car entered twice; they have to be merged by hand.
+DO $$
+DECLARE
+    duplicates TEXT;
+BEGIN
+    SELECT string_agg(d."vins", '; ' ORDER BY d."vin") INTO duplicates
+    FROM (
+        SELECT UPPER(regexp_replace("vin", '[[:space:]-]', '', 'g')) AS "vin",
+               string_agg("vin" || ' (' || "id" || ')', ', ' ORDER BY "createdAt") AS "vins"
+        FROM "CarRecord"
+        GROUP BY 1
+        HAVING COUNT(*) > 1
+    ) d;
+    IF duplicates IS NOT NULL THEN
+        RAISE EXCEPTION 'Car records share a VIN once spaces, dashes and case are ignored: %. Merge or correct them first.', duplicates;
+    END IF;
+END $$;
+
+UPDATE "CarRecord"
+SET "vin" = UPPER(regexp_replace("vin", '[[:space:]-]', '', 'g'))
+WHERE "vin" <> UPPER(regexp_replace("vin", '[[:space:]-]', '', 'g'));
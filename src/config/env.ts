@@ -2,17 +2,60 @@ import 'dotenv/config'
 import { z } from 'zod'
 
 const EnvSchema = z.object({
+  NODE_ENV: z.string().optional(),
   PORT: z.string().default('5000'),
   DATABASE_URL: z.string(),
   JWT_ACCESS_SECRET: z.string(),
   JWT_REFRESH_SECRET: z.string(),
+  // Access tokens are short-lived; clients renew them with their refresh token
+  JWT_ACCESS_EXPIRES_IN_SECONDS: z.coerce.number().int().positive().default(900),
   GOOGLE_CLIENT_ID: z.string(),
+  // Comma-separated email domains whose verified Google accounts may sign up without an invitation
+  SIGNUP_ALLOWED_DOMAINS: z.string().default('').transform((value) =>
+    value.split(',').map((domain) => domain.trim().toLowerCase().replace(/^@/, '')).filter(Boolean)
+  ),
+  // Admin app address used in invitation emails
+  APP_URL: z.string().url().default('http://localhost:3002'),
+  // Roles that must pass a TOTP second step to sign in (comma-separated; empty makes 2FA optional for everyone)
+  TWO_FACTOR_REQUIRED_ROLES: z.string().default('SUPER_ADMIN,ADMIN').transform((value) =>
+    value.split(',').map((role) => role.trim().toUpperCase()).filter(Boolean)
+  ),
+  // Key for TOTP secrets at rest, kept apart from the JWT secrets; changing it makes enrolled users reset 2FA
+  TOTP_ENCRYPTION_KEY: z.string().min(32),
+  TOTP_ISSUER: z.string().default('Alias Auto'),
+  // Email/password and magic-link sign-in, for staff without Google accounts
+  LOCAL_AUTH_ENABLED: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+  // Page of the admin app that receives ?token= from a magic link
+  MAGIC_LINK_URL: z.string().url().default('http://localhost:3002/auth/magic-link'),
+  // Outgoing mail: 'console' logs messages, 'file' writes .eml files to MAIL_FILE_DIR, 'http' posts to MAIL_SERVICE_URL.
+  // Defaults to 'console' outside production; production must choose, so sign-in links are never only logged.
+  MAIL_TRANSPORT: z.enum(['console', 'file', 'http']).optional(),
+  MAIL_FROM: z.string().default('Alias Auto <no-reply@aliasauto.kr>'),
+  MAIL_FILE_DIR: z.string().default('tmp/mail'),
+  MAIL_SERVICE_URL: z.string().url().optional(),
+  MAIL_SERVICE_AUTH_HEADER: z.string().optional(),
   CORS_ORIGIN: z.string().default('http://localhost:3002'),
   AWS_ACCESS_KEY_ID: z.string().optional(),
   AWS_SECRET_ACCESS_KEY: z.string().optional(),
   AWS_REGION: z.string().default('us-east-1'),
   AWS_S3_BUCKET: z.string().optional(),
-})
+  // Optional S3-compatible endpoint (MinIO, LocalStack) for running without AWS
+  AWS_S3_ENDPOINT: z.string().url().optional(),
+  // Document generation: 'remote' calls DOCUMENT_SERVICE_URL, 'local' renders in-process, 'stub' is for tests
+  DOCUMENT_PROVIDER: z.enum(['remote', 'local', 'stub']).default('local'),
+  DOCUMENT_PROVIDER_FALLBACK: z.enum(['remote', 'local', 'stub']).optional(),
+  DOCUMENT_SERVICE_URL: z.string().url().optional(),
+  DOCUMENT_SERVICE_AUTH_HEADER: z.string().optional(),
+  DOCUMENT_SERVICE_RETRIES: z.coerce.number().int().nonnegative().default(2),
+  DOCUMENT_SERVICE_TIMEOUT_MS: z.coerce.number().int().positive().default(60000),
+  // LibreOffice binary used for PDF renditions
+  PDF_CONVERTER_PATH: z.string().default('soffice'),
+  PDF_CONVERTER_TIMEOUT_MS: z.coerce.number().int().positive().default(120000),
+}).superRefine((value, ctx) => {
+  if (value.NODE_ENV === 'production' && !value.MAIL_TRANSPORT) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['MAIL_TRANSPORT'], message: 'Set MAIL_TRANSPORT in production' })
+  }
+}).transform((value) => ({ ...value, MAIL_TRANSPORT: value.MAIL_TRANSPORT ?? 'console' }))
 
 export const env = EnvSchema.parse(process.env)
 
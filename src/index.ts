@@ -9,12 +9,17 @@ import { usersRouter } from './routes/users'
 import { collectionsRouter } from './routes/collections'
 import { publicCollectionsRouter } from './routes/public-collections'
 import { publicInspectionsRouter } from './routes/public-inspections'
+import { publicVehicleVocabularyRouter } from './routes/public-vehicle-vocabulary'
 import { inspectionsRouter } from './routes/inspections'
 import { carRecordsRouter } from './routes/car-records'
 import { companiesRouter } from './routes/companies'
 import { portInfosRouter } from './routes/port-infos'
 import { invoicesRouter } from './routes/invoices'
 import { invoiceTemplatesRouter } from './routes/invoice-templates'
+import { exchangeRatesRouter } from './routes/exchange-rates'
+import { consigneesRouter } from './routes/consignees'
+import { countriesRouter } from './routes/countries'
+import { invitationsRouter } from './routes/invitations'
 
 const app = express()
 app.use(helmet())
@@ -55,6 +60,7 @@ const API_PREFIX = '/api/v1'
 // Public routes (no authentication)
 app.use(`${API_PREFIX}/public/collections`, publicCollectionsRouter)
 app.use(`${API_PREFIX}/public/inspections`, publicInspectionsRouter)
+app.use(`${API_PREFIX}/public/vehicle-vocabulary`, publicVehicleVocabularyRouter)
 
 // Protected routes (authentication required)
 app.use(`${API_PREFIX}/auth`, authRouter)
@@ -66,6 +72,10 @@ app.use(`${API_PREFIX}/companies`, companiesRouter)
 app.use(`${API_PREFIX}/port-infos`, portInfosRouter)
 app.use(`${API_PREFIX}/invoices`, invoicesRouter)
 app.use(`${API_PREFIX}/invoice-templates`, invoiceTemplatesRouter)
+app.use(`${API_PREFIX}/exchange-rates`, exchangeRatesRouter)
+app.use(`${API_PREFIX}/consignees`, consigneesRouter)
+app.use(`${API_PREFIX}/countries`, countriesRouter)
+app.use(`${API_PREFIX}/invitations`, invitationsRouter)
 
 app.get(`${API_PREFIX}/health`, (_req, res) => res.json({ ok: true }))
 
@@ -0,0 +1,338 @@
+import { z } from 'zod'
+import { CarRecord, Prisma } from '@prisma/client'
+import { CurrencyCodeSchema } from './exchange-rate'
+import { decodeVin, normalizeVin, crossCheckVin } from './vin'
+import { DEFAULT_FUEL_TYPE, FuelTypeSchema } from './vehicle-vocabulary'
+
+// Readers for the free-text car fields (engine_cc, weight, price, manufacture_date) entered before
+// the typed columns existed. Each returns null when the text does not hold a plausible value.
+
+export interface ParsedPrice {
+  amount: number
+  // Only set when the text names a currency, e.g. $ or KRW
+  currency: string | null
+}
+
+export interface ParsedManufactureDate {
+  year: number
+  month: number | null
+}
+
+// Typed values of a car record, falling back to its legacy text for rows not yet converted
+export interface CarRecordValues {
+  engineCc: number | null
+  weightKg: number | null
+  priceAmount: number | null
+  priceCurrency: string
+  manufactureYear: number | null
+  manufactureMonth: number | null
+}
+
+const CURRENCY_MARKERS: [RegExp, string][] = [
+  [/\$|usd|달러/i, 'USD'],
+  [/₩|krw|원/i, 'KRW'],
+  [/€|eur/i, 'EUR'],
+  [/₽|rub|руб/i, 'RUB'],
+  [/¥|jpy|엔/i, 'JPY'],
+  [/cny|rmb|元/i, 'CNY'],
+]
+
+/**
+ * First number in the text, reading both 1,998.5 and 1.998,5 styles; spaces inside numbers are ignored.
+ * A minus sign right before it makes it negative.
+ */
+function parseDecimalText(value: string): number | null {
+  const match = value.match(/(-\s*)?(\d[\d\s,.']*)/)
+  if (!match) return null
+  const sign = match[1] ? -1 : 1
+
+  let text = match[2].replace(/[\s']/g, '').replace(/[.,]+$/, '')
+  const lastComma = text.lastIndexOf(',')
+  const lastDot = text.lastIndexOf('.')
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Whichever separator comes last is the decimal one
+    const decimal = lastComma > lastDot ? ',' : '.'
+    const thousands = decimal === ',' ? '.' : ','
+    text = text.split(thousands).join('').replace(decimal, '.')
+  } else if (lastComma !== -1) {
+    // 1,500 and 1,500,000 are thousands; 1,5 is a decimal comma
+    text = /^\d{1,3}(,\d{3})+$/.test(text) ? text.replace(/,/g, '') : text.replace(',', '.')
+  } else if ((text.match(/\./g) ?? []).length > 1) {
+    text = text.replace(/\./g, '')
+  }
+
+  const number = Number(text)
+  return Number.isFinite(number) ? sign * number : null
+}
+
+/**
+ * Engine displacement in cc, e.g. "1,998 cc" -> 1998, "2.0L" -> 2000
+ */
+export function parseEngineCc(value: string): number | null {
+  const number = parseDecimalText(value)
+  if (number === null) return null
+
+  const cc = number < 20 && (/l|리터|л/i.test(value) || !Number.isInteger(number)) ? number * 1000 : number
+  const rounded = Math.round(cc)
+  return rounded >= 50 && rounded <= 20000 ? rounded : null
+}
+
+// No passenger car or light truck weighs less; "1.540 kg" is more likely a mistyped 1540 than 1.54 kg
+const MIN_WEIGHT_KG = 300
+
+// Legacy prices this large that name no currency are most likely won, so the conversion of existing rows
+// leaves them for a person to confirm. Input through the API or an import is read as entered.
+export const MAX_UNMARKED_PRICE = 1_000_000
+
+/**
+ * Curb weight in kg, e.g. "1,540 kg" -> 1540, "1.5 t" -> 1500
+ */
+export function parseWeightKg(value: string): number | null {
+  const number = parseDecimalText(value)
+  if (number === null) return null
+
+  const kg = /\d\s*(t|ton|톤|т)\b/i.test(value) || /톤|тонн/i.test(value) ? number * 1000 : number
+  return kg >= MIN_WEIGHT_KG && kg <= 100000 ? Math.round(kg * 100) / 100 : null
+}
+
+/**
+ * Price with the currency it names, e.g. "$15,000" -> 15000 USD, "1,500만원" -> 15000000 KRW.
+ * Negative amounts are not read.
+ */
+export function parsePrice(value: string): ParsedPrice | null {
+  const number = parseDecimalText(value)
+  if (number === null) return null
+
+  // Korean listings quote prices in units of 10,000 won
+  const inManWon = /\d\s*만/.test(value)
+  const amount = inManWon ? number * 10000 : number
+  const currency = CURRENCY_MARKERS.find(([pattern]) => pattern.test(value))?.[1] ?? (inManWon ? 'KRW' : null)
+
+  if (amount < 0) return null
+  return { amount: Math.round(amount * 100) / 100, currency }
+}
+
+/**
+ * Year and month of manufacture, e.g. "2021년 03월" -> 2021/3, "03/2021" -> 2021/3, "2019" -> 2019
+ */
+export function parseManufactureDate(value: string): ParsedManufactureDate | null {
+  const text = value.trim()
+  const maxYear = new Date().getFullYear() + 1
+  const toResult = (year: number, month?: number): ParsedManufactureDate | null => {
+    if (year < 1900 || year > maxYear) return null
+    return { year, month: month && month >= 1 && month <= 12 ? month : null }
+  }
+
+  const compact = text.match(/^((?:19|20)\d{2})(\d{2})(\d{2})?$/)
+  if (compact) return toResult(Number(compact[1]), Number(compact[2]))
+
+  const yearFirst = text.match(/((?:19|20)\d{2})(?:\D{1,3}(\d{1,2})(?!\d))?/)
+  const monthFirst = text.match(/^(\d{1,2})\s*[./-]\s*((?:19|20)\d{2})$/)
+  if (monthFirst) return toResult(Number(monthFirst[2]), Number(monthFirst[1]))
+  if (yearFirst) return toResult(Number(yearFirst[1]), yearFirst[2] ? Number(yearFirst[2]) : undefined)
+
+  return null
+}
+
+/**
+ * Values of a car record for invoicing, preferring the typed columns
+ * @param record - Car record
+ * @returns CarRecordValues
+ */
+export function readCarRecordValues(record: CarRecord): CarRecordValues {
+  const legacyPrice = record.priceAmount === null ? parsePrice(record.price) : null
+  const legacyDate = record.manufactureYear === null ? parseManufactureDate(record.manufacture_date) : null
+
+  return {
+    engineCc: record.engineCc ?? parseEngineCc(record.engine_cc),
+    weightKg: record.weightKg !== null ? Number(record.weightKg) : parseWeightKg(record.weight),
+    priceAmount: record.priceAmount !== null ? Number(record.priceAmount) : legacyPrice?.amount ?? null,
+    priceCurrency: record.priceCurrency,
+    manufactureYear: record.manufactureYear ?? legacyDate?.year ?? null,
+    manufactureMonth: record.manufactureYear !== null ? record.manufactureMonth : legacyDate?.month ?? null,
+  }
+}
+
+// Request fields for car records, shared by the car record routes and the spreadsheet import
+
+/**
+ * Raised when a new car record lacks a field that could not be taken from its VIN either
+ */
+export class CarRecordInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CarRecordInputError'
+  }
+}
+
+// Each value field takes a number or, during the transition, the legacy free text ("1,998 cc", "$15,000")
+const unparsable = (ctx: z.RefinementCtx, what: string, value: string) => {
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Could not read ${what} from "${value}"` })
+  return z.NEVER
+}
+
+const EngineCcSchema = z.union([z.number().int().positive(), z.string().trim().min(1).max(50)])
+  .transform((value, ctx) => typeof value === 'number' ? value : parseEngineCc(value) ?? unparsable(ctx, 'engine displacement', value))
+
+const WeightSchema = z.union([z.number().positive(), z.string().trim().min(1).max(100)])
+  .transform((value, ctx) => typeof value === 'number' ? value : parseWeightKg(value) ?? unparsable(ctx, 'weight', value))
+
+const PriceSchema = z.union([z.number().nonnegative(), z.string().trim().min(1).max(100)])
+  .transform((value, ctx): ParsedPrice => typeof value === 'number'
+    ? { amount: value, currency: null }
+    : parsePrice(value) ?? unparsable(ctx, 'price', value))
+
+const ManufactureDateSchema = z.string().trim().min(1).max(50)
+  .transform((value, ctx) => parseManufactureDate(value) ?? unparsable(ctx, 'manufacture date', value))
+
+// Stored normalized (upper case, no spaces or dashes) so lookups and uniqueness are exact
+const VinSchema = z.string().min(1).max(255).transform(normalizeVin).superRefine((vin, ctx) => {
+  for (const message of decodeVin(vin).errors) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message })
+  }
+})
+
+export const CarRecordFieldsSchema = z.object({
+  vin: VinSchema,
+  car_model: z.string().min(1).max(255),
+  engine_cc: EngineCcSchema, // cc
+  weight: WeightSchema, // kg
+  price: PriceSchema,
+  price_currency: CurrencyCodeSchema.optional(), // Defaults to the currency named in a text price, then USD
+  manufacture_date: ManufactureDateSchema.optional(), // Legacy text, e.g. "2021년 03월"
+  manufacture_year: z.number().int().min(1900).max(2100).optional(),
+  manufacture_month: z.number().int().min(1).max(12).nullable().optional(),
+  fuel_type: FuelTypeSchema, // Code, label or alias, e.g. lpg, "Plug-in hybrid", 휘발유
+})
+
+// car_model may be left out; the manufacture year is pre-filled from the VIN where it carries one
+export const CreateCarRecordSchema = CarRecordFieldsSchema.extend({
+  car_model: CarRecordFieldsSchema.shape.car_model.optional(),
+  fuel_type: CarRecordFieldsSchema.shape.fuel_type.default(DEFAULT_FUEL_TYPE),
+})
+
+export const UpdateCarRecordSchema = CarRecordFieldsSchema.partial()
+
+export type CarRecordFields = z.infer<typeof UpdateCarRecordSchema>
+
+// Columns of a new car record other than the ones set by whoever stores it
+export type CarRecordCreateColumns = Omit<Prisma.CarRecordUncheckedCreateInput, 'id' | 'authorId' | 'updatedAt'>
+
+/**
+ * Typed year/month win over the legacy text when both are sent
+ */
+function manufactureOf(fields: CarRecordFields): ParsedManufactureDate | undefined {
+  return fields.manufacture_year !== undefined
+    ? { year: fields.manufacture_year, month: fields.manufacture_month ?? null }
+    : fields.manufacture_date
+}
+
+/**
+ * Map parsed fields to columns, filling the typed columns and their legacy text together
+ * @param fields - Parsed request body
+ * @returns Column values for the fields that were given
+ */
+export function toCarRecordColumns(fields: CarRecordFields): Prisma.CarRecordUncheckedUpdateInput {
+  const data: Prisma.CarRecordUncheckedUpdateInput = {}
+
+  if (fields.vin !== undefined) data.vin = fields.vin
+  if (fields.car_model !== undefined) data.car_model = fields.car_model
+  if (fields.fuel_type !== undefined) data.fuel_type = fields.fuel_type
+  if (fields.engine_cc !== undefined) {
+    data.engineCc = fields.engine_cc
+    data.engine_cc = String(fields.engine_cc)
+  }
+  if (fields.weight !== undefined) {
+    data.weightKg = fields.weight
+    data.weight = String(fields.weight)
+  }
+  if (fields.price !== undefined) {
+    data.priceAmount = fields.price.amount
+    data.price = String(fields.price.amount)
+    if (fields.price.currency) data.priceCurrency = fields.price.currency
+  }
+  if (fields.price_currency !== undefined) data.priceCurrency = fields.price_currency
+
+  const manufacture = manufactureOf(fields)
+  if (manufacture) {
+    data.manufactureYear = manufacture.year
+    data.manufactureMonth = manufacture.month
+    data.manufacture_date = String(manufacture.year)
+  } else if (fields.manufacture_month !== undefined) {
+    data.manufactureMonth = fields.manufacture_month
+  }
+
+  return data
+}
+
+// CarRecordConversionIssue.field reported for each typed column by the conversion of legacy rows
+const CONVERSION_ISSUE_FIELDS = {
+  engineCc: 'engine_cc',
+  weightKg: 'weight',
+  priceAmount: 'price',
+  manufactureYear: 'manufacture_date',
+  fuel_type: 'fuel_type',
+} as const
+
+/**
+ * Conversion issues settled by an update, so they can be deleted in the same write
+ * @param data - Columns being written
+ * @returns Values of CarRecordConversionIssue.field
+ */
+export function settledConversionIssueFields(data: Prisma.CarRecordUncheckedUpdateInput): string[] {
+  return Object.entries(CONVERSION_ISSUE_FIELDS).flatMap(([column, field]) =>
+    data[column as keyof typeof CONVERSION_ISSUE_FIELDS] !== undefined ? [field] : []
+  )
+}
+
+/**
+ * Columns for a new car record, with the manufacture year pre-filled from the VIN model year when left out
+ * and the VIN's region mandates one
+ * @param fields - Parsed create fields
+ * @returns Columns and the ways the entered values disagree with the VIN
+ * @throws CarRecordInputError when the manufacture year is missing and the VIN does not supply it
+ */
+export function prepareCarRecordCreate(fields: z.infer<typeof CreateCarRecordSchema>): {
+  columns: CarRecordCreateColumns
+  warnings: string[]
+} {
+  const decoding = decodeVin(fields.vin)
+
+  // The VIN names the make, never the model, so a missing model stays empty for the user to fill in
+  const carModel = fields.car_model ?? ''
+
+  const entered = manufactureOf(fields)
+  const prefilled = !entered && decoding.modelYear !== null
+  const manufacture = entered ?? (decoding.modelYear !== null ? { year: decoding.modelYear, month: null } : undefined)
+  if (!manufacture) {
+    throw new CarRecordInputError('manufacture_year or manufacture_date is required; it could not be decoded from the VIN')
+  }
+
+  // Saved as entered; mismatches with the VIN are only reported, since dealers' data is often the better source
+  const warnings = crossCheckVin(decoding, { carModel, manufactureYear: manufacture.year })
+  if (prefilled) {
+    warnings.push(`Manufacture year ${manufacture.year} was taken from the VIN model year; check it against the registration`)
+  }
+  if (!carModel) {
+    warnings.push('car_model was left empty; the VIN only identifies the make')
+  }
+
+  const columns: CarRecordCreateColumns = {
+    vin: fields.vin,
+    car_model: carModel,
+    fuel_type: fields.fuel_type,
+    engineCc: fields.engine_cc,
+    engine_cc: String(fields.engine_cc),
+    weightKg: fields.weight,
+    weight: String(fields.weight),
+    priceAmount: fields.price.amount,
+    price: String(fields.price.amount),
+    priceCurrency: fields.price_currency ?? fields.price.currency ?? undefined,
+    manufactureYear: manufacture.year,
+    manufactureMonth: manufacture.month,
+    manufacture_date: String(manufacture.year),
+  }
+
+  return { columns, warnings }
+}
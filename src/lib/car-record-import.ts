@@ -0,0 +1,229 @@
+import { z } from 'zod'
+import { CarRecord, Prisma, Role } from '@prisma/client'
+import { prisma } from './prisma'
+import { normalizeVin } from './vin'
+import {
+  CreateCarRecordSchema,
+  UpdateCarRecordSchema,
+  CarRecordInputError,
+  prepareCarRecordCreate,
+  CarRecordCreateColumns,
+  toCarRecordColumns,
+} from './car-record-fields'
+
+export const MAX_IMPORT_ROWS = 1000
+
+export const CAR_RECORD_IMPORT_FIELDS = [
+  'vin',
+  'car_model',
+  'engine_cc',
+  'weight',
+  'manufacture_date',
+  'price',
+  'price_currency',
+  'fuel_type',
+] as const
+
+export type CarRecordImportField = typeof CAR_RECORD_IMPORT_FIELDS[number]
+
+// Field -> header text in the file
+export type CarRecordImportMapping = Partial<Record<CarRecordImportField, string>>
+
+export const CarRecordImportMappingSchema = z.record(z.enum(CAR_RECORD_IMPORT_FIELDS), z.string().trim().min(1))
+
+// Headers recognized without a mapping, compared lower-case with spaces and punctuation removed
+const HEADER_ALIASES: Record<CarRecordImportField, string[]> = {
+  vin: ['vin', 'vinnumber', 'vinno', 'chassisno', 'chassisnumber', '차대번호', 'винномер'],
+  car_model: ['carmodel', 'model', 'car', '차명', '모델', 'модель'],
+  engine_cc: ['enginecc', 'cc', 'engine', 'displacement', '배기량', 'объем', 'объемдвигателя'],
+  weight: ['weight', 'weightkg', '중량', '차량중량', 'вес', 'масса'],
+  manufacture_date: ['manufacturedate', 'manufactureyear', 'year', '연식', '제작연월', '제작일', 'годвыпуска'],
+  price: ['price', 'amount', '가격', '금액', 'цена'],
+  price_currency: ['currency', 'pricecurrency', '통화', 'валюта'],
+  fuel_type: ['fueltype', 'fuel', '연료', 'топливо'],
+}
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '')
+
+export class CarRecordImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CarRecordImportError'
+  }
+}
+
+export type CarRecordImportAction = 'create' | 'update' | 'unchanged' | 'error'
+
+export interface CarRecordImportRow {
+  // Row number in the file, the header being row 1
+  row: number
+  vin: string | null
+  action: CarRecordImportAction
+  carRecordId: string | null
+  // Columns an update would change
+  changes: string[]
+  errors: string[]
+  warnings: string[]
+}
+
+export type CarRecordImportOperation =
+  | { type: 'create'; row: number; data: CarRecordCreateColumns }
+  | { type: 'update'; row: number; id: string; data: Prisma.CarRecordUncheckedUpdateInput }
+
+export interface CarRecordImportPlan {
+  headers: string[]
+  mapping: CarRecordImportMapping
+  rows: CarRecordImportRow[]
+  operations: CarRecordImportOperation[]
+  summary: Record<CarRecordImportAction, number> & { total: number }
+}
+
+/**
+ * Match file headers to fields: an explicit mapping first, then the known header names
+ */
+function resolveMapping(headers: string[], mapping: CarRecordImportMapping = {}): Map<CarRecordImportField, number> {
+  const columns = new Map<CarRecordImportField, number>()
+
+  for (const [field, header] of Object.entries(mapping) as [CarRecordImportField, string][]) {
+    const index = headers.findIndex((value) => value.trim().toLowerCase() === header.toLowerCase())
+    if (index === -1) {
+      throw new CarRecordImportError(`Column "${header}" mapped to ${field} is not in the file`)
+    }
+    columns.set(field, index)
+  }
+
+  for (const field of CAR_RECORD_IMPORT_FIELDS) {
+    if (columns.has(field)) continue
+    const index = headers.findIndex((value) => HEADER_ALIASES[field].includes(normalizeHeader(value)))
+    if (index !== -1 && ![...columns.values()].includes(index)) columns.set(field, index)
+  }
+
+  if (!columns.has('vin')) {
+    throw new CarRecordImportError('No VIN column found; map one with mapping.vin')
+  }
+  return columns
+}
+
+const formatIssues = (error: z.ZodError) =>
+  error.errors.map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+
+// Columns whose value would differ from the stored record
+function changedColumns(record: CarRecord, data: Prisma.CarRecordUncheckedUpdateInput): string[] {
+  return Object.entries(data)
+    .filter(([column, value]) => {
+      const current = record[column as keyof CarRecord]
+      return String(current ?? '') !== String(value ?? '')
+    })
+    .map(([column]) => column)
+}
+
+/**
+ * Validate spreadsheet rows and work out what importing them would do; nothing is written
+ * @param rows - Cells of the file, the first row holding headers
+ * @param options - Column mapping and the importing user; SALES may only update their own records
+ * @returns CarRecordImportPlan
+ */
+export async function planCarRecordImport(
+  rows: string[][],
+  options: { mapping?: CarRecordImportMapping; user: { id: string; role: Role } }
+): Promise<CarRecordImportPlan> {
+  const [headers = [], ...body] = rows
+  const columns = resolveMapping(headers, options.mapping)
+
+  const dataRows = body
+    .map((cells, index) => ({ row: index + 2, cells }))
+    .filter(({ cells }) => cells.some((value) => value !== ''))
+  if (dataRows.length === 0) {
+    throw new CarRecordImportError('File has no data rows')
+  }
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    throw new CarRecordImportError(`File has ${dataRows.length} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`)
+  }
+
+  const values = dataRows.map(({ row, cells }) => {
+    const fields: Record<string, string> = {}
+    for (const [field, index] of columns) {
+      const value = cells[index]?.trim()
+      if (value) fields[field] = value
+    }
+    return { row, fields, vin: fields.vin ? normalizeVin(fields.vin) : null }
+  })
+
+  const vins = [...new Set(values.map((value) => value.vin).filter((vin): vin is string => Boolean(vin)))]
+  const existing = new Map(
+    (await prisma.carRecord.findMany({ where: { vin: { in: vins } } })).map((record) => [record.vin, record])
+  )
+
+  const firstRowByVin = new Map<string, number>()
+  const results: CarRecordImportRow[] = []
+  const operations: CarRecordImportOperation[] = []
+
+  for (const { row, fields, vin } of values) {
+    const result: CarRecordImportRow = { row, vin, action: 'error', carRecordId: null, changes: [], errors: [], warnings: [] }
+    results.push(result)
+
+    if (vin) {
+      const firstRow = firstRowByVin.get(vin)
+      if (firstRow !== undefined) {
+        result.errors.push(`Duplicate VIN; first seen on row ${firstRow}`)
+        continue
+      }
+      firstRowByVin.set(vin, row)
+    }
+
+    const record = vin ? existing.get(vin) : undefined
+    if (record) {
+      result.carRecordId = record.id
+      if (options.user.role !== Role.SUPER_ADMIN && record.authorId !== options.user.id) {
+        result.errors.push('VIN belongs to a car record owned by another user')
+        continue
+      }
+
+      const parsed = UpdateCarRecordSchema.safeParse(fields)
+      if (!parsed.success) {
+        result.errors.push(...formatIssues(parsed.error))
+        continue
+      }
+
+      const data = toCarRecordColumns(parsed.data)
+      result.changes = changedColumns(record, data)
+      if (result.changes.length === 0) {
+        result.action = 'unchanged'
+        continue
+      }
+      result.action = 'update'
+      operations.push({ type: 'update', row, id: record.id, data })
+      continue
+    }
+
+    const parsed = CreateCarRecordSchema.safeParse(fields)
+    if (!parsed.success) {
+      result.errors.push(...formatIssues(parsed.error))
+      continue
+    }
+
+    try {
+      const { columns: data, warnings } = prepareCarRecordCreate(parsed.data)
+      result.warnings = warnings
+      result.action = 'create'
+      operations.push({ type: 'create', row, data })
+    } catch (error) {
+      if (error instanceof CarRecordInputError) {
+        result.errors.push(error.message)
+        continue
+      }
+      throw error
+    }
+  }
+
+  const summary = { total: results.length, create: 0, update: 0, unchanged: 0, error: 0 }
+  for (const result of results) summary[result.action]++
+
+  return {
+    headers,
+    mapping: Object.fromEntries([...columns].map(([field, index]) => [field, headers[index]])),
+    rows: results,
+    operations,
+    summary,
+  }
+}
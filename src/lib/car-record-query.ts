@@ -0,0 +1,93 @@
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import { FuelTypeSchema } from './vehicle-vocabulary'
+
+const BooleanQuerySchema = z.enum(['true', 'false']).transform((value) => value === 'true')
+
+export const CAR_RECORD_SORT_FIELDS = ['createdAt', 'vin', 'car_model', 'manufactureYear', 'priceAmount'] as const
+
+// Query parameters shared by the car record list, search and export routes
+export const CarRecordFilterSchema = z.object({
+  authorId: z.string().min(1).optional(),
+  vin: z.string().trim().min(1).optional(), // partial, anywhere in the VIN
+  vinLastDigits: z.string().trim().min(1).optional(), // suffix; kept for older clients, prefer vin
+  model: z.string().trim().min(1).optional(),
+  yearFrom: z.coerce.number().int().optional(),
+  yearTo: z.coerce.number().int().optional(),
+  fuelType: FuelTypeSchema.optional(),
+  priceMin: z.coerce.number().nonnegative().optional(),
+  priceMax: z.coerce.number().nonnegative().optional(),
+  priceCurrency: z.string().trim().toUpperCase().length(3).optional(),
+  hasInvoice: BooleanQuerySchema.optional(),
+  sortBy: z.enum(CAR_RECORD_SORT_FIELDS).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+})
+
+export const CarRecordListQuerySchema = CarRecordFilterSchema.extend({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().default(20).transform((value) => Math.min(value, 100)),
+})
+
+export type CarRecordFilter = z.infer<typeof CarRecordFilterSchema>
+
+export function buildCarRecordWhere(filter: CarRecordFilter): Prisma.CarRecordWhereInput {
+  const where: Prisma.CarRecordWhereInput = {}
+  const and: Prisma.CarRecordWhereInput[] = []
+
+  if (filter.authorId) where.authorId = filter.authorId
+  if (filter.fuelType) where.fuel_type = filter.fuelType
+  if (filter.model) where.car_model = { contains: filter.model, mode: 'insensitive' }
+  if (filter.priceCurrency) where.priceCurrency = filter.priceCurrency
+
+  // VINs are often read off a photo, so only part of one may be known
+  if (filter.vin) and.push({ vin: { contains: filter.vin, mode: 'insensitive' } })
+  if (filter.vinLastDigits) and.push({ vin: { endsWith: filter.vinLastDigits, mode: 'insensitive' } })
+
+  // Ranges use the typed columns; records whose legacy text could not be converted never match,
+  // and are counted by buildUnconvertedWhere
+  if (filter.yearFrom !== undefined || filter.yearTo !== undefined) {
+    where.manufactureYear = {
+      ...(filter.yearFrom !== undefined ? { gte: filter.yearFrom } : {}),
+      ...(filter.yearTo !== undefined ? { lte: filter.yearTo } : {}),
+    }
+  }
+  if (filter.priceMin !== undefined || filter.priceMax !== undefined) {
+    where.priceAmount = {
+      ...(filter.priceMin !== undefined ? { gte: filter.priceMin } : {}),
+      ...(filter.priceMax !== undefined ? { lte: filter.priceMax } : {}),
+    }
+  }
+
+  // A car is invoiced when an invoice names it directly or through one of its lines
+  if (filter.hasInvoice === true) {
+    and.push({ OR: [{ Invoice: { some: {} } }, { InvoiceLine: { some: {} } }] })
+  } else if (filter.hasInvoice === false) {
+    and.push({ Invoice: { none: {} } }, { InvoiceLine: { none: {} } })
+  }
+
+  if (and.length > 0) where.AND = and
+  return where
+}
+
+/**
+ * Records left out by the year or price range only because their legacy text was never converted,
+ * so callers can say how many could not be searched
+ * @returns Filter for those records, or null when no range is used
+ */
+export function buildUnconvertedWhere(filter: CarRecordFilter): Prisma.CarRecordWhereInput | null {
+  const unconverted: Prisma.CarRecordWhereInput[] = []
+  if (filter.yearFrom !== undefined || filter.yearTo !== undefined) unconverted.push({ manufactureYear: null })
+  if (filter.priceMin !== undefined || filter.priceMax !== undefined) unconverted.push({ priceAmount: null })
+  if (unconverted.length === 0) return null
+
+  const where = buildCarRecordWhere({ ...filter, yearFrom: undefined, yearTo: undefined, priceMin: undefined, priceMax: undefined })
+  return { ...where, OR: unconverted }
+}
+
+export function buildCarRecordOrderBy(filter: CarRecordFilter): Prisma.CarRecordOrderByWithRelationInput[] {
+  // Records without a typed year or price sort last either way
+  const field = filter.sortBy === 'manufactureYear' || filter.sortBy === 'priceAmount'
+    ? { [filter.sortBy]: { sort: filter.sortOrder, nulls: 'last' } }
+    : { [filter.sortBy]: filter.sortOrder }
+  return [field, { id: filter.sortOrder }]
+}
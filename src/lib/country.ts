@@ -0,0 +1,51 @@
+import { Country, Prisma, PrismaClient } from '@prisma/client'
+import { prisma } from './prisma'
+
+// Language used when a caller does not ask for one
+export const DEFAULT_LANGUAGE = 'en'
+
+/**
+ * Raised when invoicing is attempted for a country that is missing from the Country table or switched off
+ */
+export class InvoiceCountryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvoiceCountryError'
+  }
+}
+
+/**
+ * Look up a country by the name stored on invoices, e.g. Russia
+ */
+export async function findCountry(
+  name: string,
+  client: PrismaClient | Prisma.TransactionClient = prisma
+): Promise<Country | null> {
+  return client.country.findUnique({ where: { name } })
+}
+
+/**
+ * Country that new invoices can be issued for
+ * @throws InvoiceCountryError when it is unknown or inactive
+ */
+export async function getInvoicingCountry(
+  name: string,
+  client: PrismaClient | Prisma.TransactionClient = prisma
+): Promise<Country> {
+  const country = await findCountry(name, client)
+  if (!country) {
+    throw new InvoiceCountryError(`Country ${name} is not configured for invoicing`)
+  }
+  if (!country.isActive) {
+    throw new InvoiceCountryError(`Invoicing for ${name} is disabled`)
+  }
+  return country
+}
+
+/**
+ * Official name in the requested language, falling back to English, then to the short name
+ */
+export function getOfficialName(country: Country, language: string = DEFAULT_LANGUAGE): string {
+  const names = (country.officialNames ?? {}) as Record<string, string>
+  return names[language] || names[DEFAULT_LANGUAGE] || country.name
+}
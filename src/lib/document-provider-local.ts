@@ -0,0 +1,106 @@
+import crypto from 'crypto'
+import { TaxIdAlgorithm } from '@prisma/client'
+import { generateInvoiceDocx, generateInvoicePdf, InvoiceTemplateData, GeneratedDocument } from './invoice-document'
+import { DocumentProvider, DocumentProviderError, ConsigneeData } from './document-provider'
+import { templateErrorMessages } from './docx-template'
+import { generateTaxId } from './tax-id'
+
+interface ConsigneeSamples {
+  names: string[]
+  cities: string[]
+  streets: string[]
+  phonePrefix: string
+  phoneDigits: number
+  // Tax IDs pass the country's check when it has one; otherwise they are random digits
+  taxIdAlgorithm?: TaxIdAlgorithm
+  idDigits: number
+}
+
+// Sample data for generating placeholder consignees in 'fake' invoices
+const CONSIGNEE_SAMPLES: Record<string, ConsigneeSamples> = {
+  Russia: {
+    names: ['Ivanov Sergey Petrovich', 'Smirnov Alexey Igorevich', 'Kuznetsova Elena Viktorovna', 'Popov Dmitry Andreevich'],
+    cities: ['Vladivostok', 'Moscow', 'Novosibirsk', 'Khabarovsk'],
+    streets: ['Lenina St.', 'Svetlanskaya St.', 'Pushkina St.', 'Mira Ave.'],
+    phonePrefix: '+7 9',
+    phoneDigits: 9,
+    taxIdAlgorithm: 'RU_INN',
+    idDigits: 12,
+  },
+  Uzbekistan: {
+    names: ['Karimov Aziz Rustamovich', 'Yusupov Bekzod Alisherovich', 'Rakhimova Dilnoza Shavkatovna', 'Tursunov Jasur Akmalovich'],
+    cities: ['Tashkent', 'Samarkand', 'Bukhara', 'Andijan'],
+    streets: ['Amir Temur St.', 'Navoi St.', 'Mustaqillik Ave.', 'Bobur St.'],
+    phonePrefix: '+998 9',
+    phoneDigits: 8,
+    taxIdAlgorithm: 'UZ_TIN',
+    idDigits: 14,
+  },
+  Kazakhstan: {
+    names: ['Nurlanov Arman Serikovich', 'Abenov Daniyar Kairatovich', 'Sultanova Aigerim Bolatovna', 'Zhakupov Yerlan Maratovich'],
+    cities: ['Almaty', 'Astana', 'Shymkent', 'Karaganda'],
+    streets: ['Abay Ave.', 'Dostyk Ave.', 'Tole Bi St.', 'Kabanbay Batyr St.'],
+    phonePrefix: '+7 7',
+    phoneDigits: 9,
+    taxIdAlgorithm: 'KZ_IIN',
+    idDigits: 12,
+  },
+  Kyrgyzstan: {
+    names: ['Asanov Bakyt Tilekovich', 'Toktogulov Azamat Nurbekovich', 'Mamatova Aizada Ulanovna', 'Sadykov Emil Kubanychbekovich'],
+    cities: ['Bishkek', 'Osh', 'Jalal-Abad', 'Karakol'],
+    streets: ['Chui Ave.', 'Manas Ave.', 'Kievskaya St.', 'Toktogul St.'],
+    phonePrefix: '+996 7',
+    phoneDigits: 8,
+    idDigits: 14,
+  },
+}
+
+const pick = <T>(values: T[]): T => values[crypto.randomInt(values.length)]
+
+const randomDigits = (length: number) =>
+  Array.from({ length }, () => crypto.randomInt(10)).join('')
+
+/**
+ * Generates everything in-process: consignees from local sample data,
+ * invoices by rendering the S3 template with docxtemplater.
+ */
+export class LocalDocumentProvider implements DocumentProvider {
+  readonly name = 'local'
+
+  async generateConsignee(country: string): Promise<ConsigneeData> {
+    const samples = CONSIGNEE_SAMPLES[country]
+    if (!samples) {
+      throw new DocumentProviderError(`Consignee generation is not supported for ${country}`, 400)
+    }
+
+    return {
+      consignee_name: pick(samples.names),
+      consignee_address: `${pick(samples.streets)} ${crypto.randomInt(1, 200)}, ${pick(samples.cities)}, ${country}`,
+      consignee_iin: samples.taxIdAlgorithm ? generateTaxId(samples.taxIdAlgorithm) : randomDigits(samples.idDigits),
+      consignee_tel: `${samples.phonePrefix}${randomDigits(samples.phoneDigits)}`,
+    }
+  }
+
+  async generateInvoiceDocx(data: InvoiceTemplateData): Promise<GeneratedDocument> {
+    try {
+      return await generateInvoiceDocx(data)
+    } catch (error) {
+      if (error instanceof Error && error.name === 'NoSuchKey') {
+        throw new DocumentProviderError('Invoice template file not found', 400)
+      }
+      // Docxtemplater reports malformed placeholders as a multi error
+      if (error instanceof Error && 'properties' in error) {
+        throw new DocumentProviderError('Invoice template is invalid', 422, false, templateErrorMessages(error))
+      }
+      throw new DocumentProviderError(`Failed to generate Word document: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  async generateInvoicePdf(docx: GeneratedDocument, invoiceNo: string): Promise<GeneratedDocument> {
+    try {
+      return await generateInvoicePdf(docx, invoiceNo)
+    } catch (error) {
+      throw new DocumentProviderError(`Failed to generate PDF: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+}
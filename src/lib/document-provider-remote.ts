@@ -0,0 +1,117 @@
+import { generateInvoicePdf, InvoiceTemplateData, GeneratedDocument } from './invoice-document'
+import { DocumentProvider, DocumentProviderError, ConsigneeData } from './document-provider'
+
+export interface RemoteDocumentProviderOptions {
+  baseUrl: string
+  authHeader?: string
+  retries: number
+  timeoutMs: number
+}
+
+const RETRY_BASE_DELAY_MS = 500
+
+// Response bodies of the document service
+interface ConsigneeResponse extends Partial<ConsigneeData> {
+  country?: string
+  data?: ConsigneeData
+}
+
+interface GenerateDocxResponse {
+  message?: string
+  download_url?: string
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Calls an external document service over HTTP
+ * (POST /api/generate-consignee, POST /api/generate-docx).
+ */
+export class RemoteDocumentProvider implements DocumentProvider {
+  readonly name = 'remote'
+
+  constructor(private options: RemoteDocumentProviderOptions) {}
+
+  private async request<T>(path: string, body: unknown): Promise<T> {
+    const url = `${this.options.baseUrl.replace(/\/$/, '')}${path}`
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    }
+    if (this.options.authHeader) {
+      headers['Authorization'] = this.options.authHeader
+    }
+
+    let lastError: DocumentProviderError | undefined
+
+    for (let attempt = 0; attempt <= this.options.retries; attempt++) {
+      if (attempt > 0) {
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1))
+      }
+
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), this.options.timeoutMs)
+
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(body),
+          signal: controller.signal,
+        })
+
+        if (response.ok) {
+          return (await response.json()) as T
+        }
+
+        const errorText = await response.text()
+        console.error(`Document service error response (${path}):`, errorText)
+        // The service's own statuses mean nothing to our clients (its 401 is not theirs), so all surface as 502
+        lastError = new DocumentProviderError(
+          `Document service rejected the request (${response.status})`,
+          502,
+          response.status >= 500,
+          errorText ? [errorText] : undefined
+        )
+        // Client errors will not succeed on retry
+        if (response.status < 500) break
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          lastError = new DocumentProviderError('Document service request timed out. Please try again.', 504, true)
+        } else {
+          console.error(`Document service request failed (${path}):`, error)
+          lastError = new DocumentProviderError('Document service is unavailable. Please try again later.', 503, true)
+        }
+      } finally {
+        clearTimeout(timeoutId)
+      }
+    }
+
+    throw lastError
+  }
+
+  async generateConsignee(country: string): Promise<ConsigneeData> {
+    // Service returns: { "country": "...", "data": { "consignee_name": "...", ... } }
+    const response = await this.request<ConsigneeResponse>('/api/generate-consignee', { country })
+    return response.data || {
+      consignee_name: response.consignee_name ?? '',
+      consignee_address: response.consignee_address ?? '',
+      consignee_iin: response.consignee_iin ?? '',
+      consignee_tel: response.consignee_tel ?? '',
+    }
+  }
+
+  async generateInvoiceDocx(data: InvoiceTemplateData): Promise<GeneratedDocument> {
+    // Service returns: { "message": "...", "download_url": "..." }
+    const response = await this.request<GenerateDocxResponse>('/api/generate-docx', data)
+    if (!response?.download_url) {
+      throw new DocumentProviderError('Document service did not return download_url in response', 502)
+    }
+    return { fileUrl: response.download_url }
+  }
+
+  async generateInvoicePdf(docx: GeneratedDocument, invoiceNo: string): Promise<GeneratedDocument> {
+    // The document service only produces Word files; the PDF is converted locally
+    return generateInvoicePdf(docx, invoiceNo)
+  }
+}
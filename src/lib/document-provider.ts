@@ -0,0 +1,131 @@
+import { env } from '../config/env'
+import type { InvoiceTemplateData, GeneratedDocument } from './invoice-document'
+import { RemoteDocumentProvider } from './document-provider-remote'
+import { LocalDocumentProvider } from './document-provider-local'
+
+export type DocumentProviderName = 'remote' | 'local' | 'stub'
+
+export interface ConsigneeData {
+  consignee_name: string
+  consignee_address: string
+  consignee_iin: string
+  consignee_tel: string
+}
+
+/**
+ * Generates consignee data and invoice documents.
+ * Routes only talk to this interface so each environment can pick its own generator.
+ */
+export interface DocumentProvider {
+  readonly name: string
+  generateConsignee(country: string): Promise<ConsigneeData>
+  generateInvoiceDocx(data: InvoiceTemplateData): Promise<GeneratedDocument>
+  generateInvoicePdf(docx: GeneratedDocument, invoiceNo: string): Promise<GeneratedDocument>
+}
+
+/**
+ * Error raised by a provider, carrying the HTTP status the API should answer with.
+ * `unavailable` marks failures where trying a fallback provider makes sense.
+ */
+export class DocumentProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 500,
+    public readonly unavailable: boolean = false,
+    public readonly details?: string[]
+  ) {
+    super(message)
+    this.name = 'DocumentProviderError'
+  }
+}
+
+/**
+ * Deterministic provider for tests: no network, no S3.
+ */
+export class StubDocumentProvider implements DocumentProvider {
+  readonly name = 'stub'
+
+  async generateConsignee(country: string): Promise<ConsigneeData> {
+    return {
+      consignee_name: `Test Consignee (${country})`,
+      consignee_address: `1 Test Street, ${country}`,
+      consignee_iin: '000000000000',
+      consignee_tel: '+0000000000',
+    }
+  }
+
+  async generateInvoiceDocx(data: InvoiceTemplateData): Promise<GeneratedDocument> {
+    const key = `Invoices/${data.invoice_no}/stub.docx`
+    return { fileUrl: `https://stub.invalid/${key}`, key }
+  }
+
+  async generateInvoicePdf(_docx: GeneratedDocument, invoiceNo: string): Promise<GeneratedDocument> {
+    const key = `Invoices/${invoiceNo}/stub.pdf`
+    return { fileUrl: `https://stub.invalid/${key}`, key }
+  }
+}
+
+/**
+ * Uses the primary provider and retries on the fallback when the primary is unavailable.
+ */
+class FallbackDocumentProvider implements DocumentProvider {
+  readonly name: string
+
+  constructor(private primary: DocumentProvider, private fallback: DocumentProvider) {
+    this.name = `${primary.name}+${fallback.name}`
+  }
+
+  private async withFallback<T>(run: (provider: DocumentProvider) => Promise<T>): Promise<T> {
+    try {
+      return await run(this.primary)
+    } catch (error) {
+      if (!(error instanceof DocumentProviderError) || !error.unavailable) throw error
+      console.warn(`Document provider "${this.primary.name}" unavailable, falling back to "${this.fallback.name}":`, error.message)
+      return run(this.fallback)
+    }
+  }
+
+  generateConsignee(country: string) {
+    return this.withFallback((provider) => provider.generateConsignee(country))
+  }
+
+  generateInvoiceDocx(data: InvoiceTemplateData) {
+    return this.withFallback((provider) => provider.generateInvoiceDocx(data))
+  }
+
+  generateInvoicePdf(docx: GeneratedDocument, invoiceNo: string) {
+    return this.withFallback((provider) => provider.generateInvoicePdf(docx, invoiceNo))
+  }
+}
+
+function createProvider(name: DocumentProviderName): DocumentProvider {
+  switch (name) {
+    case 'remote':
+      if (!env.DOCUMENT_SERVICE_URL) {
+        throw new Error('DOCUMENT_SERVICE_URL is required when using the remote document provider')
+      }
+      return new RemoteDocumentProvider({
+        baseUrl: env.DOCUMENT_SERVICE_URL,
+        authHeader: env.DOCUMENT_SERVICE_AUTH_HEADER,
+        retries: env.DOCUMENT_SERVICE_RETRIES,
+        timeoutMs: env.DOCUMENT_SERVICE_TIMEOUT_MS,
+      })
+    case 'local':
+      return new LocalDocumentProvider()
+    case 'stub':
+      return new StubDocumentProvider()
+  }
+}
+
+let provider: DocumentProvider | undefined
+
+export function getDocumentProvider(): DocumentProvider {
+  if (!provider) {
+    const primary = createProvider(env.DOCUMENT_PROVIDER)
+    const fallbackName = env.DOCUMENT_PROVIDER_FALLBACK
+    provider = fallbackName && fallbackName !== env.DOCUMENT_PROVIDER
+      ? new FallbackDocumentProvider(primary, createProvider(fallbackName))
+      : primary
+  }
+  return provider
+}
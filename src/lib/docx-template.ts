@@ -0,0 +1,274 @@
+import PizZip from 'pizzip'
+import Docxtemplater, { DXT } from 'docxtemplater'
+import InspectModule from 'docxtemplater/js/inspect-module.js'
+import sharp from 'sharp'
+
+// Templates use Jinja-style placeholders, e.g. {{ shipper_name }}
+export const DOCX_DELIMITERS = { start: '{{', end: '}}' }
+
+const EMU_PER_PIXEL = 9525
+const IMAGE_RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image'
+
+export interface DocxImage {
+  buffer: Buffer
+  maxWidthPx?: number
+  maxHeightPx?: number
+}
+
+export interface RenderDocxOptions {
+  // Placeholders rendered as pictures instead of text, keyed by tag name
+  images?: Record<string, DocxImage | null | undefined>
+}
+
+interface PreparedImage {
+  buffer: Buffer
+  extension: 'png' | 'jpeg'
+  widthEmu: number
+  heightEmu: number
+}
+
+interface EmbeddedImage {
+  filePath: string
+  relationshipId: string
+  mediaPath: string
+  image: PreparedImage
+}
+
+/**
+ * Normalize an image for Word: only PNG and JPEG are embedded as-is,
+ * everything else is converted to PNG. Size is scaled to fit the box.
+ */
+async function prepareImage(image: DocxImage): Promise<PreparedImage> {
+  const { maxWidthPx = 200, maxHeightPx = 100 } = image
+  const metadata = await sharp(image.buffer).metadata()
+
+  let buffer = image.buffer
+  let extension: PreparedImage['extension'] = metadata.format === 'jpeg' ? 'jpeg' : 'png'
+  if (metadata.format !== 'jpeg' && metadata.format !== 'png') {
+    buffer = await sharp(image.buffer).png().toBuffer()
+    extension = 'png'
+  }
+
+  const width = metadata.width || maxWidthPx
+  const height = metadata.height || maxHeightPx
+  const scale = Math.min(1, maxWidthPx / width, maxHeightPx / height)
+
+  return {
+    buffer,
+    extension,
+    widthEmu: Math.round(width * scale) * EMU_PER_PIXEL,
+    heightEmu: Math.round(height * scale) * EMU_PER_PIXEL,
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function getDrawingXml(relationshipId: string, docPrId: number, name: string, image: PreparedImage): string {
+  const safeName = escapeXml(name)
+  return (
+    '<w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">' +
+    `<wp:extent cx="${image.widthEmu}" cy="${image.heightEmu}"/>` +
+    '<wp:effectExtent l="0" t="0" r="0" b="0"/>' +
+    `<wp:docPr id="${docPrId}" name="${safeName}"/>` +
+    '<wp:cNvGraphicFramePr><a:graphicFrameLocks xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" noChangeAspect="1"/></wp:cNvGraphicFramePr>' +
+    '<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">' +
+    '<a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+    '<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+    `<pic:nvPicPr><pic:cNvPr id="0" name="${safeName}.${image.extension}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${relationshipId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    '<pic:spPr>' +
+    `<a:xfrm><a:off x="0" y="0"/><a:ext cx="${image.widthEmu}" cy="${image.heightEmu}"/></a:xfrm>` +
+    '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>' +
+    '</pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing>'
+  )
+}
+
+function getRelsPath(filePath: string): string {
+  const slash = filePath.lastIndexOf('/')
+  return `${filePath.substring(0, slash)}/_rels/${filePath.substring(slash + 1)}.rels`
+}
+
+/**
+ * Docxtemplater module that renders the configured tags as inline pictures.
+ * The tag sits inside a <w:t>, so the picture closes the current run and
+ * opens a fresh one after it.
+ */
+function createImageModule(tags: string[], images: Map<string, PreparedImage>, embedded: EmbeddedImage[]): DXT.Module {
+  const moduleName = 'aliasauto-image'
+  const tagNames = new Set(tags)
+
+  return {
+    name: 'AliasAutoImageModule',
+    parse(placeHolderContent: string): DXT.SimplePart | null {
+      const tag = placeHolderContent.trim()
+      return tagNames.has(tag) ? { type: 'placeholder', value: tag, module: moduleName } : null
+    },
+    render(part: DXT.Part, options: DXT.RenderOptions): DXT.Rendered | null {
+      if (part.module !== moduleName) return null
+
+      const image = images.get(part.value)
+      if (!image) return { value: '', errors: [] }
+
+      const index = embedded.length + 1
+      const entry: EmbeddedImage = {
+        filePath: options.filePath,
+        relationshipId: `rIdAliasAutoImage${index}`,
+        mediaPath: `word/media/aliasauto_image${index}.${image.extension}`,
+        image,
+      }
+      embedded.push(entry)
+
+      const drawing = getDrawingXml(entry.relationshipId, 10000 + index, part.value, image)
+      return { value: `</w:t></w:r><w:r>${drawing}</w:r><w:r><w:t xml:space="preserve">`, errors: [] }
+    },
+  }
+}
+
+function addImagesToZip(zip: PizZip, embedded: EmbeddedImage[]) {
+  const relationshipsByFile = new Map<string, string[]>()
+  const extensions = new Set<string>()
+
+  for (const entry of embedded) {
+    zip.file(entry.mediaPath, entry.image.buffer)
+    extensions.add(entry.image.extension)
+
+    const target = entry.mediaPath.replace(/^word\//, '')
+    const relationship = `<Relationship Id="${entry.relationshipId}" Type="${IMAGE_RELATIONSHIP_TYPE}" Target="${target}"/>`
+    const relsPath = getRelsPath(entry.filePath)
+    relationshipsByFile.set(relsPath, [...(relationshipsByFile.get(relsPath) || []), relationship])
+  }
+
+  for (const [relsPath, relationships] of relationshipsByFile) {
+    const existing =
+      zip.file(relsPath)?.asText() ||
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>'
+    zip.file(relsPath, existing.replace('</Relationships>', `${relationships.join('')}</Relationships>`))
+  }
+
+  const contentTypesFile = zip.file('[Content_Types].xml')
+  if (contentTypesFile) {
+    let contentTypes = contentTypesFile.asText()
+    for (const extension of extensions) {
+      if (!new RegExp(`<Default[^>]+Extension="${extension}"`, 'i').test(contentTypes)) {
+        contentTypes = contentTypes.replace(
+          '</Types>',
+          `<Default Extension="${extension}" ContentType="image/${extension}"/></Types>`
+        )
+      }
+    }
+    zip.file('[Content_Types].xml', contentTypes)
+  }
+}
+
+/**
+ * Fill a .docx template with data
+ * @param template - Template file contents
+ * @param data - Values for the text placeholders
+ * @param options - Picture placeholders
+ * @returns Promise<Buffer> - Rendered .docx file
+ */
+export async function renderDocxTemplate(
+  template: Buffer,
+  data: Record<string, unknown>,
+  options: RenderDocxOptions = {}
+): Promise<Buffer> {
+  const images = new Map<string, PreparedImage>()
+  for (const [tag, image] of Object.entries(options.images || {})) {
+    if (image) {
+      images.set(tag, await prepareImage(image))
+    }
+  }
+
+  const embedded: EmbeddedImage[] = []
+  const zip = new PizZip(template)
+  const doc = new Docxtemplater(zip, {
+    delimiters: DOCX_DELIMITERS,
+    paragraphLoop: true,
+    linebreaks: true,
+    modules: [createImageModule(Object.keys(options.images || {}), images, embedded)],
+    parser: (tag: string) => {
+      const key = tag.trim()
+      return {
+        get: (scope: Record<string, unknown> | undefined) => (key === '.' ? scope : scope?.[key]),
+      }
+    },
+    nullGetter: () => '',
+  })
+
+  doc.render(data)
+
+  const renderedZip = doc.getZip()
+  addImagesToZip(renderedZip, embedded)
+
+  return renderedZip.generate({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
+
+export interface DocxTemplateInspection {
+  // Placeholder names; tags inside a loop are prefixed with the loop name, e.g. lines.description
+  tags: string[]
+  // Syntax problems that would make rendering fail
+  errors: string[]
+}
+
+function collectTags(parts: DXT.Part[], prefix: string, tags: Set<string>) {
+  for (const part of parts) {
+    if (part.type !== 'placeholder') continue
+    const name = `${prefix}${String(part.value).trim()}`
+    tags.add(name)
+    if (part.subparsed) {
+      collectTags(part.subparsed, `${name}.`, tags)
+    }
+  }
+}
+
+interface TemplateError {
+  message?: string
+  properties?: { explanation?: string; errors?: TemplateError[] }
+}
+
+// Malformed placeholders are reported together as a multi error
+export function templateErrorMessages(error: unknown): string[] {
+  const templateError = (error && typeof error === 'object' ? error : {}) as TemplateError
+  if (templateError.properties?.errors) {
+    return templateError.properties.errors.map((e) => e.properties?.explanation || e.message || 'Invalid placeholder')
+  }
+  return [templateError.message || 'Template could not be parsed']
+}
+
+/**
+ * List the placeholders of a .docx template without rendering it
+ * @param template - Template file contents
+ * @returns DocxTemplateInspection
+ */
+export function inspectDocxTemplate(template: Buffer): DocxTemplateInspection {
+  let zip: PizZip
+  try {
+    zip = new PizZip(template)
+  } catch {
+    return { tags: [], errors: ['File is not a valid .docx document'] }
+  }
+
+  const inspector = new InspectModule()
+  try {
+    new Docxtemplater(zip, {
+      delimiters: DOCX_DELIMITERS,
+      paragraphLoop: true,
+      linebreaks: true,
+      errorLogging: false,
+      modules: [inspector],
+    })
+  } catch (error) {
+    return { tags: [], errors: templateErrorMessages(error) }
+  }
+
+  const tags = new Set<string>()
+  collectTags(inspector.getAllStructuredTags(), '', tags)
+
+  return { tags: [...tags].sort(), errors: [] }
+}
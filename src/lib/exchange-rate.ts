@@ -0,0 +1,55 @@
+import { z } from 'zod'
+import { Prisma, PrismaClient } from '@prisma/client'
+
+// Currency car prices are entered in when an invoice does not say otherwise
+export const DEFAULT_CURRENCY = 'USD'
+
+// ISO 4217 code, e.g. USD, KRW, EUR, RUB
+export const CurrencyCodeSchema = z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, 'Expected a 3-letter currency code')
+
+export interface ResolvedExchangeRate {
+  // 1 unit of `from` is worth `rate` units of `to`
+  rate: number
+  // Effective date of the table row used; null when no conversion is needed
+  effectiveDate: Date | null
+}
+
+export class ExchangeRateNotFoundError extends Error {
+  constructor(from: string, to: string, date: Date) {
+    super(`No exchange rate from ${from} to ${to} on or before ${date.toISOString().split('T')[0]}`)
+    this.name = 'ExchangeRateNotFoundError'
+  }
+}
+
+/**
+ * Find the rate in effect on a date: the latest row for the pair dated on or before it.
+ * A row for the opposite pair is used inverted when there is no direct one.
+ */
+export async function resolveExchangeRate(
+  client: PrismaClient | Prisma.TransactionClient,
+  from: string,
+  to: string,
+  date: Date
+): Promise<ResolvedExchangeRate> {
+  if (from === to) {
+    return { rate: 1, effectiveDate: null }
+  }
+
+  const findLatest = (baseCurrency: string, quoteCurrency: string) =>
+    client.exchangeRate.findFirst({
+      where: { baseCurrency, quoteCurrency, effectiveDate: { lte: date } },
+      orderBy: { effectiveDate: 'desc' },
+    })
+
+  const direct = await findLatest(from, to)
+  if (direct) {
+    return { rate: direct.rate.toNumber(), effectiveDate: direct.effectiveDate }
+  }
+
+  const inverse = await findLatest(to, from)
+  if (inverse && !inverse.rate.isZero()) {
+    return { rate: new Prisma.Decimal(1).dividedBy(inverse.rate).toDecimalPlaces(8).toNumber(), effectiveDate: inverse.effectiveDate }
+  }
+
+  throw new ExchangeRateNotFoundError(from, to, date)
+}
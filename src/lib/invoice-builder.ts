@@ -0,0 +1,471 @@
+import { CarRecord, Invoice, InvoiceLineType } from '@prisma/client'
+import { prisma } from './prisma'
+import { InvoiceTemplateData, InvoiceTemplateLine, InvoiceCarLine } from './invoice-document'
+import { resolveExchangeRate, ExchangeRateNotFoundError, DEFAULT_CURRENCY } from './exchange-rate'
+import { resolveInvoiceTemplate } from './invoice-template'
+import { findCountry, getOfficialName } from './country'
+import { readCarRecordValues } from './car-record-fields'
+import { DEFAULT_FUEL_TYPE, fuelTypeLabel, normalizeFuelType } from './vehicle-vocabulary'
+
+export interface InvoiceBuyer {
+  country: string
+  consignee_name: string
+  consignee_address: string
+  consignee_iin: string
+  consignee_tel: string
+}
+
+// Fields accepted by invoice create/update
+export interface InvoiceInput {
+  companyId: string
+  // Defaults to the country's default port
+  portInfoId?: string
+  country: string
+  destination: string
+  // Defaults to the country's official name
+  destinationCountry?: string
+  // Template file to render; without it invoiceTemplateId, then the country's default template is used
+  invoiceTemplateUrl?: string
+  invoiceTemplateId?: string
+  carRecordId?: string
+  // Several vehicles on one invoice; takes precedence over carRecordId
+  carRecordIds?: string[]
+  // Explicit lines, including fees; take precedence over carRecordId(s)
+  lines?: InvoiceLineInput[]
+  // Currency printed on the invoice
+  currency?: string
+  // Currency of the line and car prices; converted into `currency`. Defaults to the cars' price currency
+  priceCurrency?: string
+  // Rate already used by the invoice; looked up from the rate table when absent
+  exchangeRate?: { rate: number; effectiveDate: Date | null }
+  mode: 'fake' | 'original'
+  // Inline buyer; when absent it is copied from the saved consignee
+  buyer?: InvoiceBuyer
+  consigneeId?: string
+}
+
+// A vehicle line needs carRecordId; description, unitPrice and weight default to the car's values
+export interface InvoiceLineInput {
+  type: InvoiceLineType
+  carRecordId?: string
+  description?: string
+  quantity?: number
+  unitPrice?: number
+  // Total weight of the line
+  weight?: number
+}
+
+// Columns of an InvoiceLine row, without id and invoiceId
+export interface PreparedInvoiceLine {
+  position: number
+  type: InvoiceLineType
+  description: string
+  quantity: number
+  unitPrice: number
+  amount: number
+  weight: number | null
+  carRecordId: string | null
+  carVin: string | null
+  carModel: string | null
+  carYear: string | null
+  carVolume: string | null
+  carFuelType: string | null
+}
+
+export interface PreparedInvoice {
+  // Template placeholders; invoice_no is filled in once the number is known
+  templateData: InvoiceTemplateData
+  // Snapshot stored in Invoice.data
+  snapshot: Record<string, unknown>
+  // Template the document is rendered from; null for a URL with no InvoiceTemplate record
+  invoiceTemplateId: string | null
+  consigneeId: string | null
+  lines: PreparedInvoiceLine[]
+  totals: {
+    totalAmount: number
+    totalWeight: number
+  }
+  // Currency columns on Invoice
+  pricing: {
+    currency: string
+    priceCurrency: string
+    exchangeRate: number
+    exchangeRateDate: Date | null
+  }
+  // Flat car columns on Invoice, taken from the first vehicle line
+  carColumns: {
+    carRecordId: string | null
+    carVin: string | null
+    carModel: string | null
+    carYear: string | null
+    carWeight: string | null
+    carVolume: string | null
+    carPrice: string | null
+    carFuelType: string | null
+  }
+}
+
+/**
+ * Raised when the input refers to records that do not exist
+ */
+export class InvoiceBuildError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message)
+    this.name = 'InvoiceBuildError'
+  }
+}
+
+const resolveCarRecordIds = (input: InvoiceInput): string[] =>
+  input.carRecordIds?.length ? [...new Set(input.carRecordIds)] : input.carRecordId ? [input.carRecordId] : []
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Resolve line input against the car records it refers to.
+ * Cars named through carRecordId(s) that no longer exist are skipped, as before lines existed;
+ * a missing car in an explicit line is an error.
+ */
+async function buildInvoiceLines(input: InvoiceInput): Promise<{ lines: PreparedInvoiceLine[]; carRecords: CarRecord[] }> {
+  const explicit = Boolean(input.lines?.length)
+  const lineInputs: InvoiceLineInput[] = explicit
+    ? input.lines!
+    : resolveCarRecordIds(input).map((carRecordId) => ({ type: InvoiceLineType.VEHICLE, carRecordId }))
+
+  const carRecordIds = lineInputs
+    .map((line) => line.carRecordId)
+    .filter((id): id is string => Boolean(id))
+  const carRecords = carRecordIds.length
+    ? await prisma.carRecord.findMany({ where: { id: { in: carRecordIds } } })
+    : []
+
+  const lines: PreparedInvoiceLine[] = []
+  const usedCarRecords: CarRecord[] = []
+
+  for (const line of lineInputs) {
+    const quantity = line.quantity ?? 1
+    const record = line.carRecordId ? carRecords.find((item) => item.id === line.carRecordId) : undefined
+
+    if (line.type === InvoiceLineType.VEHICLE) {
+      if (!record) {
+        if (explicit) throw new InvoiceBuildError(`Car record not found: ${line.carRecordId}`, 404)
+        continue
+      }
+      usedCarRecords.push(record)
+      const values = readCarRecordValues(record)
+
+      const unitPrice = roundMoney(line.unitPrice ?? values.priceAmount ?? 0)
+      lines.push({
+        position: lines.length + 1,
+        type: line.type,
+        description: line.description || `${record.car_model} ${record.vin}`.trim(),
+        quantity,
+        unitPrice,
+        amount: roundMoney(unitPrice * quantity),
+        weight: line.weight ?? (values.weightKg ?? 0) * quantity,
+        carRecordId: record.id,
+        carVin: record.vin,
+        carModel: record.car_model,
+        carYear: values.manufactureYear ? String(values.manufactureYear) : null,
+        carVolume: values.engineCc !== null ? String(values.engineCc) : null,
+        carFuelType: normalizeFuelType(record.fuel_type) ?? record.fuel_type,
+      })
+      continue
+    }
+
+    const unitPrice = roundMoney(line.unitPrice ?? 0)
+    lines.push({
+      position: lines.length + 1,
+      type: line.type,
+      description: line.description || '',
+      quantity,
+      unitPrice,
+      amount: roundMoney(unitPrice * quantity),
+      weight: line.weight ?? null,
+      carRecordId: null,
+      carVin: null,
+      carModel: null,
+      carYear: null,
+      carVolume: null,
+      carFuelType: null,
+    })
+  }
+
+  return { lines, carRecords: usedCarRecords }
+}
+
+/**
+ * Use the inline buyer, or copy it from the saved consignee so the invoice keeps
+ * the details as they were when it was issued
+ */
+async function resolveBuyer(input: InvoiceInput): Promise<InvoiceBuyer> {
+  if (input.buyer) return input.buyer
+
+  if (!input.consigneeId) {
+    throw new InvoiceBuildError('Either buyer or consigneeId is required')
+  }
+
+  const consignee = await prisma.consignee.findUnique({ where: { id: input.consigneeId } })
+  if (!consignee) {
+    throw new InvoiceBuildError('Consignee not found', 404)
+  }
+
+  return {
+    country: consignee.country,
+    consignee_name: consignee.name,
+    consignee_address: consignee.address,
+    consignee_iin: consignee.taxId,
+    consignee_tel: consignee.phone,
+  }
+}
+
+/**
+ * Load the records an invoice refers to and build its template data and snapshot
+ * @param input - Invoice fields
+ * @param invoiceDate - Date printed on the invoice
+ * @returns Promise<PreparedInvoice>
+ */
+export async function prepareInvoice(input: InvoiceInput, invoiceDate: Date): Promise<PreparedInvoice> {
+  const {
+    companyId,
+    country,
+    destination,
+    destinationCountry,
+    mode,
+  } = input
+
+  const countryRecord = await findCountry(country)
+
+  // Fetch full company data
+  const company = await prisma.company.findUnique({
+    where: { id: companyId }
+  })
+
+  if (!company) {
+    throw new InvoiceBuildError('Company not found', 404)
+  }
+
+  const portInfoId = input.portInfoId || countryRecord?.defaultPortInfoId
+  if (!portInfoId) {
+    throw new InvoiceBuildError(`No port given and no default port for ${country}`)
+  }
+
+  // Fetch full port info data
+  const portInfo = await prisma.portInfo.findUnique({
+    where: { id: portInfoId }
+  })
+
+  if (!portInfo) {
+    throw new InvoiceBuildError('Port info not found', 404)
+  }
+
+  const buyer = await resolveBuyer(input)
+
+  const template = await resolveInvoiceTemplate(input)
+  if (!template) {
+    throw input.invoiceTemplateId
+      ? new InvoiceBuildError('Invoice template not found', 404)
+      : new InvoiceBuildError(`No invoice template given and no default template for ${country}`)
+  }
+  const invoiceTemplateUrl = template.fileUrl
+
+  const { lines, carRecords } = await buildInvoiceLines(input)
+
+  const carCurrencies = [...new Set(carRecords.map((record) => record.priceCurrency))]
+  if (!input.priceCurrency && carCurrencies.length > 1) {
+    throw new InvoiceBuildError(`Car prices are in different currencies (${carCurrencies.join(', ')}); priceCurrency is required`)
+  }
+
+  const currency = input.currency || DEFAULT_CURRENCY
+  const priceCurrency = input.priceCurrency || carCurrencies[0] || DEFAULT_CURRENCY
+  let exchangeRate = input.exchangeRate
+  if (!exchangeRate) {
+    try {
+      exchangeRate = await resolveExchangeRate(prisma, priceCurrency, currency, invoiceDate)
+    } catch (error) {
+      if (error instanceof ExchangeRateNotFoundError) {
+        throw new InvoiceBuildError(error.message, 422)
+      }
+      throw error
+    }
+  }
+  const convert = (amount: number) => roundMoney(amount * exchangeRate!.rate)
+  const carRecord = carRecords[0] ?? null
+
+  const buyerCountry = buyer.country === country ? countryRecord : await findCountry(buyer.country)
+  const officialCountryName = destinationCountry || (buyerCountry ? getOfficialName(buyerCountry) : buyer.country) || ''
+
+  // Stored as a vocabulary code; records not yet migrated may still hold a label such as "Gasoline"
+  const fuelType = carRecord ? normalizeFuelType(carRecord.fuel_type) ?? carRecord.fuel_type : DEFAULT_FUEL_TYPE
+
+  const carValues = carRecord ? readCarRecordValues(carRecord) : null
+  const carYear = carValues?.manufactureYear ?? 0
+
+  const totals = {
+    totalAmount: roundMoney(lines.reduce((sum, line) => sum + line.amount, 0)),
+    totalWeight: roundMoney(lines.reduce((sum, line) => sum + (line.weight ?? 0), 0)),
+  }
+
+  // Loop blocks for templates: {{#lines}}...{{/lines}} lists every line, {{#cars}}...{{/cars}} vehicles only
+  const templateLines: InvoiceTemplateLine[] = lines.map((line) => ({
+    no: line.position,
+    type: line.type,
+    description: line.description,
+    quantity: line.quantity,
+    unit_price: line.unitPrice,
+    amount: line.amount,
+    converted_unit_price: convert(line.unitPrice),
+    converted_amount: convert(line.amount),
+    weight: line.weight ?? 0,
+    car_vin: line.carVin || '',
+    car_model: line.carModel || '',
+    car_year: Number(line.carYear) || 0,
+    volume: Number(line.carVolume) || 0,
+    fuel_type: line.carFuelType ? fuelTypeLabel(line.carFuelType) : '',
+  }))
+  const cars: InvoiceCarLine[] = lines
+    .filter((line) => line.type === InvoiceLineType.VEHICLE)
+    .map((line, index) => ({
+      no: index + 1,
+      car_year: Number(line.carYear) || 0,
+      car_model: line.carModel || '',
+      volume: Number(line.carVolume) || 0,
+      fuel_type: line.carFuelType ? fuelTypeLabel(line.carFuelType) : '',
+      car_vin: line.carVin || '',
+      unit_price: line.unitPrice,
+      converted_unit_price: convert(line.unitPrice),
+      weight: line.weight ?? 0,
+    }))
+
+  const templateData: InvoiceTemplateData = {
+    shipper_name: company.name || '',
+    shipper_address: company.address || '',
+    shipper_tel: company.phone || '',
+    invoice_no: '',
+    invoice_date: invoiceDate.toISOString().split('T')[0],
+    destination_country: destinationCountry || officialCountryName,
+    destination: destination || country,
+    consignee_name: buyer.consignee_name || '',
+    consignee_address: buyer.consignee_address || '',
+    consignee_tel: buyer.consignee_tel || '',
+    consignee_iin: buyer.consignee_iin || '',
+    port_loading: portInfo.description || '',
+    port_name: portInfo.shortAddress || '',
+    sailing_date: invoiceDate.toISOString().split('T')[0],
+    car_year: carYear,
+    car_model: carRecord?.car_model || '',
+    volume: carValues?.engineCc ?? 0,
+    // Documents are issued in English, like the destination country name
+    fuel_type: fuelTypeLabel(fuelType),
+    car_vin: carRecord?.vin || '',
+    unit_price: carValues?.priceAmount ?? 0,
+    weight: carValues?.weightKg ?? 0,
+    lines: templateLines,
+    cars,
+    car_count: cars.length,
+    total_price: totals.totalAmount,
+    total_weight: totals.totalWeight,
+    currency,
+    price_currency: priceCurrency,
+    exchange_rate: exchangeRate.rate,
+    exchange_rate_date: exchangeRate.effectiveDate?.toISOString().split('T')[0] || '',
+    converted_total_price: convert(totals.totalAmount),
+    logo_image: company.logoUrl || '',
+    seal_image: company.sealUrl || '',
+    file_url: invoiceTemplateUrl,
+  }
+
+  // Store full invoice data as JSON (include car record for VIN access)
+  const snapshot = {
+    company,
+    portInfo,
+    buyer,
+    consigneeId: input.consigneeId ?? null,
+    carRecord: carRecord ? {
+      id: carRecord.id,
+      vin: carRecord.vin,
+      car_model: carRecord.car_model,
+      engine_cc: carRecord.engine_cc,
+      weight: carRecord.weight,
+      manufacture_date: carRecord.manufacture_date,
+      price: carRecord.price,
+      fuel_type: carRecord.fuel_type,
+      engineCc: carValues!.engineCc,
+      weightKg: carValues!.weightKg,
+      priceAmount: carValues!.priceAmount,
+      priceCurrency: carValues!.priceCurrency,
+      manufactureYear: carValues!.manufactureYear,
+      manufactureMonth: carValues!.manufactureMonth,
+    } : null,
+    lines,
+    currency,
+    priceCurrency,
+    exchangeRate,
+    // Also include car_vin for easy access
+    car_vin: carRecord?.vin || '',
+    destination,
+    destinationCountry,
+    invoiceTemplateUrl,
+    invoiceTemplateId: template.id,
+    mode,
+  }
+
+  return {
+    templateData,
+    snapshot,
+    invoiceTemplateId: template.id,
+    consigneeId: input.consigneeId ?? null,
+    lines,
+    totals,
+    pricing: {
+      currency,
+      priceCurrency,
+      exchangeRate: exchangeRate.rate,
+      exchangeRateDate: exchangeRate.effectiveDate,
+    },
+    carColumns: {
+      carRecordId: carRecord?.id || null,
+      carVin: carRecord?.vin || null,
+      carModel: carRecord?.car_model || null,
+      carYear: carYear ? String(carYear) : null,
+      carWeight: carValues?.weightKg != null ? String(carValues.weightKg) : null,
+      carVolume: carValues?.engineCc != null ? String(carValues.engineCc) : null,
+      carPrice: carValues?.priceAmount != null ? String(carValues.priceAmount) : null,
+      carFuelType: fuelType || null,
+    },
+  }
+}
+
+/**
+ * Recover the input an existing invoice was generated from
+ * @param invoice - Stored invoice
+ * @returns InvoiceInput
+ */
+export function getInvoiceInput(invoice: Invoice): InvoiceInput {
+  const data = (invoice.data ?? {}) as Record<string, any>
+  return {
+    companyId: data.company?.id,
+    portInfoId: data.portInfo?.id,
+    country: invoice.country,
+    destination: data.destination,
+    destinationCountry: data.destinationCountry,
+    invoiceTemplateUrl: data.invoiceTemplateUrl,
+    invoiceTemplateId: data.invoiceTemplateId ?? undefined,
+    carRecordId: invoice.carRecordId ?? undefined,
+    lines: Array.isArray(data.lines)
+      ? data.lines.map((line: PreparedInvoiceLine): InvoiceLineInput => ({
+          type: line.type,
+          carRecordId: line.carRecordId ?? undefined,
+          description: line.description,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          weight: line.weight ?? undefined,
+        }))
+      : undefined,
+    currency: invoice.currency,
+    priceCurrency: invoice.priceCurrency,
+    exchangeRate: { rate: invoice.exchangeRate.toNumber(), effectiveDate: invoice.exchangeRateDate },
+    mode: data.mode ?? 'fake',
+    buyer: data.buyer,
+    consigneeId: data.consigneeId ?? undefined,
+  }
+}
@@ -0,0 +1,170 @@
+import { env } from '../config/env'
+import { s3Service } from './s3'
+import { renderDocxTemplate, DocxImage } from './docx-template'
+import { convertDocxToPdf } from './pdf-converter'
+
+export const DOCX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+export const PDF_CONTENT_TYPE = 'application/pdf'
+
+// One row of the {{#lines}} loop
+export interface InvoiceTemplateLine {
+  no: number
+  type: string
+  description: string
+  quantity: number
+  unit_price: number
+  amount: number
+  converted_unit_price: number
+  converted_amount: number
+  weight: number
+  car_vin: string
+  car_model: string
+  car_year: number
+  volume: number
+  fuel_type: string
+}
+
+// One row of the {{#cars}} loop
+export interface InvoiceCarLine {
+  no: number
+  car_year: number
+  car_model: string
+  volume: number
+  fuel_type: string
+  car_vin: string
+  unit_price: number
+  converted_unit_price: number
+  weight: number
+}
+
+// Placeholder values passed to invoice templates
+export interface InvoiceTemplateData {
+  shipper_name: string
+  shipper_address: string
+  shipper_tel: string
+  invoice_no: string
+  invoice_date: string
+  destination_country: string
+  destination: string
+  consignee_name: string
+  consignee_address: string
+  consignee_tel: string
+  consignee_iin: string
+  port_loading: string
+  port_name: string
+  sailing_date: string
+  car_year: number
+  car_model: string
+  volume: number
+  fuel_type: string
+  car_vin: string
+  unit_price: number
+  weight: number
+  lines: InvoiceTemplateLine[]
+  cars: InvoiceCarLine[]
+  car_count: number
+  total_price: number
+  total_weight: number
+  currency: string
+  price_currency: string
+  exchange_rate: number
+  exchange_rate_date: string
+  converted_total_price: number
+  logo_image: string
+  seal_image: string
+  file_url: string
+}
+
+export interface GeneratedDocument {
+  fileUrl: string
+  // S3 key, when the document was stored in our bucket
+  key?: string
+}
+
+/**
+ * Download an image referenced by URL from our bucket.
+ * A missing logo or seal should not block the invoice, so failures render an empty placeholder.
+ */
+async function loadImage(url: string, maxWidthPx: number, maxHeightPx: number): Promise<DocxImage | null> {
+  if (!url) return null
+  try {
+    const buffer = await s3Service.getObject(s3Service.extractKeyFromUrl(url))
+    return { buffer, maxWidthPx, maxHeightPx }
+  } catch (error) {
+    console.error(`Failed to load invoice image ${url}:`, error)
+    return null
+  }
+}
+
+/**
+ * Fill an invoice template, including the company logo and seal
+ * @param template - Template file contents
+ * @param data - Invoice placeholder values
+ * @returns Promise<Buffer> - Rendered .docx file
+ */
+export async function renderInvoiceDocx(template: Buffer, data: InvoiceTemplateData): Promise<Buffer> {
+  const [logo, seal] = await Promise.all([
+    loadImage(data.logo_image, 200, 100),
+    loadImage(data.seal_image, 150, 150),
+  ])
+
+  return renderDocxTemplate(template, { ...data }, {
+    images: {
+      logo_image: logo,
+      seal_image: seal,
+    },
+  })
+}
+
+/**
+ * Render an invoice .docx from its template and upload it to S3
+ * @param data - Invoice placeholder values; file_url points at the template
+ * @returns Promise<GeneratedDocument> - Public URL and S3 key of the rendered file
+ */
+export async function generateInvoiceDocx(data: InvoiceTemplateData): Promise<Required<GeneratedDocument>> {
+  const template = await s3Service.getObject(s3Service.extractKeyFromUrl(data.file_url))
+  const buffer = await renderInvoiceDocx(template, data)
+
+  const key = `Invoices/${data.invoice_no}/${Date.now()}.docx`
+  const fileUrl = await s3Service.uploadFile(key, buffer, DOCX_CONTENT_TYPE)
+
+  return { fileUrl, key }
+}
+
+/**
+ * Download a generated document, from our bucket when possible
+ * @param fileUrl - Public URL of the document
+ * @returns Promise<Buffer> - Document contents
+ */
+export async function downloadDocument(fileUrl: string): Promise<Buffer> {
+  if (s3Service.isBucketUrl(fileUrl)) {
+    return s3Service.getObject(s3Service.extractKeyFromUrl(fileUrl))
+  }
+
+  // Documents the external service stored elsewhere; a stalled response must not hang the caller
+  const response = await fetch(fileUrl, { signal: AbortSignal.timeout(env.DOCUMENT_SERVICE_TIMEOUT_MS) })
+  if (!response.ok) {
+    throw new Error(`Failed to download ${fileUrl}: ${response.status}`)
+  }
+  return Buffer.from(await response.arrayBuffer())
+}
+
+/**
+ * Convert an invoice .docx to PDF and store it next to the Word file
+ * @param docx - The generated Word document
+ * @param invoiceNo - Invoice number, used for the key when the Word file is not in our bucket
+ * @returns Promise<GeneratedDocument> - Public URL and S3 key of the PDF
+ */
+export async function generateInvoicePdf(docx: GeneratedDocument, invoiceNo: string): Promise<Required<GeneratedDocument>> {
+  const key = docx.key ?? (s3Service.isBucketUrl(docx.fileUrl) ? s3Service.extractKeyFromUrl(docx.fileUrl) : undefined)
+  const buffer = key ? await s3Service.getObject(key) : await downloadDocument(docx.fileUrl)
+
+  const pdf = await convertDocxToPdf(buffer)
+
+  const pdfKey = key && /\.docx$/i.test(key)
+    ? key.replace(/\.docx$/i, '.pdf')
+    : `Invoices/${invoiceNo}/${Date.now()}.pdf`
+  const fileUrl = await s3Service.uploadFile(pdfKey, pdf, PDF_CONTENT_TYPE)
+
+  return { fileUrl, key: pdfKey }
+}
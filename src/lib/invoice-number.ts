@@ -0,0 +1,82 @@
+import { Country, InvoiceDatePattern, Prisma } from '@prisma/client'
+import { getInvoicingCountry } from './country'
+
+export interface InvoiceNumberFormat {
+  prefix: string
+  // Date part of the number; the sequence restarts whenever it changes
+  datePattern: InvoiceDatePattern
+  // Placed between the date part and the sequence
+  separator: string
+  // Number of digits in the sequence
+  padding: number
+}
+
+export class InvoiceSequenceOverflowError extends Error {
+  constructor(country: string, period: string, padding: number) {
+    super(`Invoice sequence for ${country} in period ${period} exceeded ${'9'.repeat(padding)}`)
+    this.name = 'InvoiceSequenceOverflowError'
+  }
+}
+
+export function getInvoiceNumberFormat(country: Country): InvoiceNumberFormat {
+  return {
+    prefix: country.invoicePrefix,
+    datePattern: country.invoiceDatePattern,
+    separator: country.invoiceSeparator,
+    padding: country.invoicePadding,
+  }
+}
+
+export function formatInvoicePeriod(pattern: InvoiceDatePattern, date: Date): string {
+  const year = String(date.getFullYear())
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+
+  switch (pattern) {
+    case 'YYYYMMDD':
+      return `${year}${month}${day}`
+    case 'YYMMDD':
+      return `${year.slice(2)}${month}${day}`
+    case 'YYYYMM':
+      return `${year}${month}`
+    case 'YYYY':
+      return year
+  }
+}
+
+/**
+ * Build an invoice number, e.g. RU-20251120001 for { prefix: 'RU', datePattern: 'YYYYMMDD', padding: 3 }
+ */
+export function formatInvoiceNumber(format: InvoiceNumberFormat, period: string, sequence: number): string {
+  return `${format.prefix}-${period}${format.separator}${String(sequence).padStart(format.padding, '0')}`
+}
+
+/**
+ * Allocate the next invoice number for a country, in the format configured on its Country row.
+ * The increment is a single upsert, so concurrent requests never share a number.
+ * Call it inside the transaction that creates the invoice: if the invoice is
+ * rolled back, so is the increment, which keeps the sequence gap-free. The sequence row
+ * stays locked until that transaction ends, so keep it short.
+ */
+export async function allocateInvoiceNumber(
+  tx: Prisma.TransactionClient,
+  country: string,
+  date: Date
+): Promise<string> {
+  const format = getInvoiceNumberFormat(await getInvoicingCountry(country, tx))
+  const period = formatInvoicePeriod(format.datePattern, date)
+
+  const [{ lastValue }] = await tx.$queryRaw<{ lastValue: number }[]>`
+    INSERT INTO "InvoiceSequence" ("country", "period", "lastValue", "updatedAt")
+    VALUES (${country}, ${period}, 1, NOW())
+    ON CONFLICT ("country", "period")
+    DO UPDATE SET "lastValue" = "InvoiceSequence"."lastValue" + 1, "updatedAt" = NOW()
+    RETURNING "lastValue"
+  `
+
+  if (String(lastValue).length > format.padding) {
+    throw new InvoiceSequenceOverflowError(country, period, format.padding)
+  }
+
+  return formatInvoiceNumber(format, period, lastValue)
+}
@@ -0,0 +1,86 @@
+import { z } from 'zod'
+import { InvoiceStatus, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+
+// A date-only upper bound (YYYY-MM-DD) includes the whole day
+const EndOfDaySchema = z.preprocess(
+  (value) => (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value),
+  z.coerce.date()
+)
+
+export const INVOICE_SORT_FIELDS = ['createdAt', 'date', 'invoiceNumber', 'country', 'carVin', 'carModel', 'status'] as const
+
+// Query parameters shared by the invoice list and export routes
+export const InvoiceFilterSchema = z.object({
+  authorId: z.string().min(1).optional(),
+  vin: z.string().trim().min(1).optional(), // partial, anywhere in the VIN
+  invoiceNumber: z.string().trim().min(1).optional(), // prefix
+  country: z.string().min(1).optional(),
+  dateFrom: z.coerce.date().optional(),
+  dateTo: EndOfDaySchema.optional(),
+  consignee: z.string().trim().min(1).optional(),
+  mode: z.enum(['fake', 'original']).optional(),
+  carModel: z.string().trim().min(1).optional(),
+  status: z.nativeEnum(InvoiceStatus).optional(),
+  sortBy: z.enum(INVOICE_SORT_FIELDS).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+})
+
+export const InvoiceListQuerySchema = InvoiceFilterSchema.extend({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().default(20).transform((value) => Math.min(value, 100)),
+  // Id of the last invoice from the previous page; takes precedence over page
+  cursor: z.string().min(1).optional(),
+})
+
+export type InvoiceFilter = z.infer<typeof InvoiceFilterSchema>
+
+// Escape LIKE wildcards so user input is matched literally
+const likeContains = (value: string) => `%${value.replace(/[\\%_]/g, '\\$&')}%`
+
+/**
+ * Invoices whose snapshot consignee name contains the text, ignoring case.
+ * Prisma's JSON string filters are case-sensitive, so this goes through SQL.
+ */
+async function findInvoiceIdsByConsignee(name: string): Promise<string[]> {
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT "id" FROM "Invoice"
+    WHERE "data"->'buyer'->>'consignee_name' ILIKE ${likeContains(name)}
+  `
+  return rows.map((row) => row.id)
+}
+
+export async function buildInvoiceWhere(filter: InvoiceFilter): Promise<Prisma.InvoiceWhereInput> {
+  const where: Prisma.InvoiceWhereInput = {}
+  const and: Prisma.InvoiceWhereInput[] = []
+
+  if (filter.authorId) where.authorId = filter.authorId
+  if (filter.country) where.country = filter.country
+  if (filter.status) where.status = filter.status
+  if (filter.vin) where.carVin = { contains: filter.vin, mode: 'insensitive' }
+  if (filter.invoiceNumber) where.invoiceNumber = { startsWith: filter.invoiceNumber, mode: 'insensitive' }
+  if (filter.carModel) where.carModel = { contains: filter.carModel, mode: 'insensitive' }
+
+  if (filter.dateFrom || filter.dateTo) {
+    where.date = {
+      ...(filter.dateFrom ? { gte: filter.dateFrom } : {}),
+      ...(filter.dateTo ? { lte: filter.dateTo } : {}),
+    }
+  }
+
+  // Consignee and mode live in the data snapshot
+  if (filter.consignee) {
+    and.push({ id: { in: await findInvoiceIdsByConsignee(filter.consignee) } })
+  }
+  if (filter.mode) {
+    and.push({ data: { path: ['mode'], equals: filter.mode } })
+  }
+
+  if (and.length > 0) where.AND = and
+  return where
+}
+
+export function buildInvoiceOrderBy(filter: InvoiceFilter): Prisma.InvoiceOrderByWithRelationInput[] {
+  // Sorting by id as well keeps the order stable for cursor pagination
+  return [{ [filter.sortBy]: filter.sortOrder }, { id: filter.sortOrder }]
+}
@@ -0,0 +1,25 @@
+import { InvoiceStatus } from '@prisma/client'
+
+// Allowed moves between invoice states; any open invoice can also be cancelled
+const TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  DRAFT: [InvoiceStatus.ISSUED, InvoiceStatus.CANCELLED],
+  ISSUED: [InvoiceStatus.PAID, InvoiceStatus.CANCELLED],
+  PAID: [InvoiceStatus.CANCELLED],
+  CANCELLED: [],
+}
+
+// Timestamp column set when an invoice enters a state
+export const STATUS_TIMESTAMP_FIELD = {
+  ISSUED: 'issuedAt',
+  PAID: 'paidAt',
+  CANCELLED: 'cancelledAt',
+} as const
+
+export function canTransition(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return TRANSITIONS[from].includes(to)
+}
+
+// States in which the document may still be edited and regenerated
+export function isEditable(status: InvoiceStatus): boolean {
+  return status === InvoiceStatus.DRAFT || status === InvoiceStatus.ISSUED
+}
@@ -0,0 +1,243 @@
+import { InvoiceTemplate } from '@prisma/client'
+import { prisma } from './prisma'
+import { inspectDocxTemplate } from './docx-template'
+import { findCountry } from './country'
+import { InvoiceTemplateData, InvoiceTemplateLine, InvoiceCarLine } from './invoice-document'
+
+// Placeholders filled in by the invoice builder; the Record types keep them in sync with InvoiceTemplateData
+const INVOICE_FIELDS: Record<Exclude<keyof InvoiceTemplateData, 'lines' | 'cars'>, true> = {
+  shipper_name: true,
+  shipper_address: true,
+  shipper_tel: true,
+  invoice_no: true,
+  invoice_date: true,
+  destination_country: true,
+  destination: true,
+  consignee_name: true,
+  consignee_address: true,
+  consignee_tel: true,
+  consignee_iin: true,
+  port_loading: true,
+  port_name: true,
+  sailing_date: true,
+  car_year: true,
+  car_model: true,
+  volume: true,
+  fuel_type: true,
+  car_vin: true,
+  unit_price: true,
+  weight: true,
+  car_count: true,
+  total_price: true,
+  total_weight: true,
+  currency: true,
+  price_currency: true,
+  exchange_rate: true,
+  exchange_rate_date: true,
+  converted_total_price: true,
+  logo_image: true,
+  seal_image: true,
+  file_url: true,
+}
+
+const LINE_FIELDS: Record<keyof InvoiceTemplateLine, true> = {
+  no: true,
+  type: true,
+  description: true,
+  quantity: true,
+  unit_price: true,
+  amount: true,
+  converted_unit_price: true,
+  converted_amount: true,
+  weight: true,
+  car_vin: true,
+  car_model: true,
+  car_year: true,
+  volume: true,
+  fuel_type: true,
+}
+
+const CAR_FIELDS: Record<keyof InvoiceCarLine, true> = {
+  no: true,
+  car_year: true,
+  car_model: true,
+  volume: true,
+  fuel_type: true,
+  car_vin: true,
+  unit_price: true,
+  converted_unit_price: true,
+  weight: true,
+}
+
+const LOOP_FIELDS: Record<string, Record<string, true>> = {
+  lines: LINE_FIELDS,
+  cars: CAR_FIELDS,
+}
+
+// An invoice without these is not usable; a tag counts wherever it appears, including inside a loop
+export const REQUIRED_INVOICE_TEMPLATE_TAGS = ['invoice_no', 'invoice_date', 'shipper_name', 'consignee_name', 'car_vin']
+
+export interface InvoiceTemplateValidation {
+  // Every placeholder found, loop fields as loop.field
+  tags: string[]
+  // Placeholders the invoice builder does not fill; they render empty
+  unknownTags: string[]
+  // Required placeholders the template lacks
+  missingTags: string[]
+  // Syntax errors; generating from the template would fail
+  errors: string[]
+}
+
+function isKnownTag(tag: string): boolean {
+  const [loop, field, ...rest] = tag.split('.')
+  if (field === undefined) {
+    return loop in INVOICE_FIELDS || loop in LOOP_FIELDS
+  }
+  // Inside a loop, tags also resolve against the top-level data
+  return rest.length === 0 && loop in LOOP_FIELDS && (field in LOOP_FIELDS[loop] || field in INVOICE_FIELDS)
+}
+
+/**
+ * Check a .docx template against the placeholders the invoice builder produces
+ * @param template - Template file contents
+ * @returns InvoiceTemplateValidation
+ */
+export function validateInvoiceTemplate(template: Buffer): InvoiceTemplateValidation {
+  const { tags, errors } = inspectDocxTemplate(template)
+  if (errors.length > 0) {
+    return { tags, unknownTags: [], missingTags: [], errors }
+  }
+
+  const fieldNames = new Set(tags.map((tag) => tag.split('.').pop()!))
+
+  return {
+    tags,
+    unknownTags: tags.filter((tag) => !isKnownTag(tag)),
+    missingTags: REQUIRED_INVOICE_TEMPLATE_TAGS.filter((tag) => !fieldNames.has(tag)),
+    errors,
+  }
+}
+
+// Placeholder values for previews; callers can override any of them
+export const SAMPLE_INVOICE_DATA: InvoiceTemplateData = {
+  shipper_name: 'Alias Auto Co., Ltd.',
+  shipper_address: '123 Sample-ro, Yeonsu-gu, Incheon, Republic of Korea',
+  shipper_tel: '+82 32 000 0000',
+  invoice_no: 'RU-20250101001',
+  invoice_date: '2025-01-01',
+  destination_country: 'Russian Federation',
+  destination: 'Vladivostok',
+  consignee_name: 'Ivanov Sergey Petrovich',
+  consignee_address: 'Svetlanskaya St. 1, Vladivostok, Russia',
+  consignee_tel: '+7 9000000000',
+  consignee_iin: '000000000000',
+  port_loading: 'Incheon, Republic of Korea',
+  port_name: 'Incheon',
+  sailing_date: '2025-01-01',
+  car_year: 2021,
+  car_model: 'Hyundai Sonata',
+  volume: 1999,
+  fuel_type: 'Gasoline',
+  car_vin: 'KMHL000000A000000',
+  unit_price: 15000,
+  weight: 1500,
+  lines: [
+    {
+      no: 1,
+      type: 'VEHICLE',
+      description: 'Hyundai Sonata KMHL000000A000000',
+      quantity: 1,
+      unit_price: 15000,
+      amount: 15000,
+      converted_unit_price: 15000,
+      converted_amount: 15000,
+      weight: 1500,
+      car_vin: 'KMHL000000A000000',
+      car_model: 'Hyundai Sonata',
+      car_year: 2021,
+      volume: 1999,
+      fuel_type: 'Gasoline',
+    },
+    {
+      no: 2,
+      type: 'FREIGHT',
+      description: 'Sea freight Incheon - Vladivostok',
+      quantity: 1,
+      unit_price: 900,
+      amount: 900,
+      converted_unit_price: 900,
+      converted_amount: 900,
+      weight: 0,
+      car_vin: '',
+      car_model: '',
+      car_year: 0,
+      volume: 0,
+      fuel_type: '',
+    },
+  ],
+  cars: [
+    {
+      no: 1,
+      car_year: 2021,
+      car_model: 'Hyundai Sonata',
+      volume: 1999,
+      fuel_type: 'Gasoline',
+      car_vin: 'KMHL000000A000000',
+      unit_price: 15000,
+      converted_unit_price: 15000,
+      weight: 1500,
+    },
+  ],
+  car_count: 1,
+  total_price: 15900,
+  total_weight: 1500,
+  currency: 'USD',
+  price_currency: 'USD',
+  exchange_rate: 1,
+  exchange_rate_date: '',
+  converted_total_price: 15900,
+  logo_image: '',
+  seal_image: '',
+  file_url: '',
+}
+
+/**
+ * Latest version of a family that has not been archived
+ */
+export async function findCurrentTemplate(familyId: string): Promise<InvoiceTemplate | null> {
+  return prisma.invoiceTemplate.findFirst({
+    where: { familyId, archivedAt: null },
+    orderBy: { version: 'desc' },
+  })
+}
+
+/**
+ * Pick the template for an invoice: an explicit URL, then an explicit template id,
+ * then the current version of the country's default family
+ * @returns The template id (null for a URL we have no record of) and file URL, or null when nothing matches
+ */
+export async function resolveInvoiceTemplate(ref: {
+  invoiceTemplateUrl?: string
+  invoiceTemplateId?: string
+  country: string
+}): Promise<{ id: string | null; fileUrl: string } | null> {
+  if (ref.invoiceTemplateUrl) {
+    const template = await prisma.invoiceTemplate.findFirst({
+      where: { fileUrl: ref.invoiceTemplateUrl },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true },
+    })
+    return { id: template?.id ?? null, fileUrl: ref.invoiceTemplateUrl }
+  }
+
+  if (ref.invoiceTemplateId) {
+    const template = await prisma.invoiceTemplate.findUnique({ where: { id: ref.invoiceTemplateId } })
+    return template ? { id: template.id, fileUrl: template.fileUrl } : null
+  }
+
+  const country = await findCountry(ref.country)
+  if (!country?.defaultTemplateFamilyId) return null
+
+  const template = await findCurrentTemplate(country.defaultTemplateFamilyId)
+  return template ? { id: template.id, fileUrl: template.fileUrl } : null
+}
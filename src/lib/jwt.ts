@@ -3,7 +3,9 @@ import { env } from '../config/env'
 
 const ACCESS_SECRET: Secret = env.JWT_ACCESS_SECRET
 
-export function signAccess(payload: object, expiresIn: string | number = '48h') {
+export const ACCESS_EXPIRES_IN_SECONDS = env.JWT_ACCESS_EXPIRES_IN_SECONDS
+
+export function signAccess(payload: object, expiresIn: string | number = ACCESS_EXPIRES_IN_SECONDS) {
   return jwt.sign(payload, ACCESS_SECRET, { expiresIn } as any)
 }
 
@@ -0,0 +1,184 @@
+import crypto from 'crypto'
+import { User } from '@prisma/client'
+import { env } from '../config/env'
+import { prisma } from './prisma'
+import { hashPassword, verifyPassword, verifyDummyPassword } from './passwords'
+import { hashToken, revokeUserSessions } from './sessions'
+import { invalidateUserAuthState } from './user-auth-state'
+import { getMailer } from './mailer'
+import { admitUser, findPendingInvitation, SignInNotAllowedError } from './onboarding'
+
+// Email/password and magic-link sign-in. Both end in the same session as Google sign-in;
+// this module only decides who the user is.
+
+const MAX_FAILED_LOGINS = 5
+const LOCKOUT_MS = 15 * 60 * 1000
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000
+// How recently an account without a password must have signed in to set one
+const REAUTH_WINDOW_MS = 10 * 60 * 1000
+
+/**
+ * Sign-in failure, carrying the HTTP status the API should answer with
+ */
+export class LocalAuthError extends Error {
+  constructor(message: string, public readonly status: number = 401) {
+    super(message)
+    this.name = 'LocalAuthError'
+  }
+}
+
+// Emails come from Google in whatever case the account uses
+const findUserByEmail = (email: string) =>
+  prisma.user.findFirst({ where: { email: { equals: email.trim(), mode: 'insensitive' } } })
+
+/**
+ * Check an email and password. Every wrong password counts towards a temporary lockout of the account.
+ * @returns The signed-in user
+ */
+export async function authenticateWithPassword(email: string, password: string): Promise<User> {
+  const user = await findUserByEmail(email)
+  if (!user?.passwordHash) {
+    await verifyDummyPassword(password)
+    throw new LocalAuthError('Invalid email or password')
+  }
+
+  const now = new Date()
+  if (user.lockedUntil && user.lockedUntil > now) {
+    throw new LocalAuthError('Too many failed sign-in attempts; try again later', 429)
+  }
+
+  if (!(await verifyPassword(password, user.passwordHash))) {
+    // Counted in the database so concurrent guesses cannot each read the same count
+    const { failedLoginAttempts } = await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    })
+    if (failedLoginAttempts >= MAX_FAILED_LOGINS) {
+      await prisma.user.updateMany({
+        where: { id: user.id, failedLoginAttempts: { gte: MAX_FAILED_LOGINS } },
+        data: { failedLoginAttempts: 0, lockedUntil: new Date(now.getTime() + LOCKOUT_MS) },
+      })
+    }
+    throw new LocalAuthError('Invalid email or password')
+  }
+
+  if (!user.isActive) {
+    throw new LocalAuthError('Account is deactivated', 403)
+  }
+
+  if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+    return prisma.user.update({ where: { id: user.id }, data: { failedLoginAttempts: 0, lockedUntil: null } })
+  }
+  return user
+}
+
+/**
+ * Email a single-use sign-in link. An invited address gets a link tied to its invitation, and the account
+ * is only created when the link is followed. Unknown and deactivated addresses are ignored without telling
+ * the caller, so the endpoint cannot be used to find accounts.
+ */
+export async function sendMagicLink(email: string): Promise<void> {
+  const user = await findUserByEmail(email)
+  const invitation = user ? null : await findPendingInvitation(email)
+  const to = user?.isActive ? user.email : invitation?.email
+  if (!to) return
+
+  const rawToken = crypto.randomBytes(32).toString('hex')
+  await prisma.magicLinkToken.create({
+    data: {
+      id: crypto.randomUUID(),
+      userId: user?.id,
+      invitationId: invitation?.id,
+      hashedToken: hashToken(rawToken),
+      expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MS),
+    },
+  })
+
+  const link = `${env.MAGIC_LINK_URL}${env.MAGIC_LINK_URL.includes('?') ? '&' : '?'}token=${rawToken}`
+  await getMailer().send({
+    to,
+    subject: 'Your Alias Auto sign-in link',
+    text: `Use this link to sign in. It works once and expires in 15 minutes.\n\n${link}\n\nIf you did not ask for it, ignore this email.`,
+  })
+}
+
+/**
+ * Use up a magic link token. Following the link proves control of the mailbox, so it also lifts a lockout,
+ * and a link sent to an invited address accepts the invitation.
+ * @returns The signed-in user
+ */
+export async function consumeMagicLink(rawToken: string): Promise<User> {
+  const hashedToken = hashToken(rawToken)
+  const now = new Date()
+
+  // Claimed atomically so a link cannot be used twice, even by concurrent requests
+  const claimed = await prisma.magicLinkToken.updateMany({
+    where: { hashedToken, usedAt: null, expiresAt: { gt: now } },
+    data: { usedAt: now },
+  })
+  if (claimed.count === 0) {
+    throw new LocalAuthError('Sign-in link is invalid or has expired')
+  }
+
+  const token = await prisma.magicLinkToken.findUniqueOrThrow({
+    where: { hashedToken },
+    include: { User: true, UserInvitation: true },
+  })
+  let user = token.User
+  if (!user && token.UserInvitation) {
+    try {
+      user = await admitUser(token.UserInvitation.email, {}, { allowDomain: false })
+    } catch (error) {
+      // Withdrawn, expired or already used between sending the link and following it
+      if (error instanceof SignInNotAllowedError) throw new LocalAuthError('Invitation is no longer valid', 403)
+      throw error
+    }
+  }
+  if (!user) {
+    throw new LocalAuthError('Sign-in link is invalid or has expired')
+  }
+  if (!user.isActive) {
+    throw new LocalAuthError('Account is deactivated', 403)
+  }
+
+  return prisma.user.update({ where: { id: user.id }, data: { failedLoginAttempts: 0, lockedUntil: null } })
+}
+
+/**
+ * Set or change a user's password and sign out the user's other sessions. Changing an existing password
+ * needs the current one; an account without one (Google sign-in only) needs a recent sign-in instead.
+ * @param userId - Signed-in user
+ * @param sessionId - Session the request was made in; it stays signed in
+ */
+export async function changePassword(
+  userId: string,
+  sessionId: string | undefined,
+  newPassword: string,
+  currentPassword?: string
+): Promise<void> {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } })
+  if (user.passwordHash) {
+    if (!(currentPassword && (await verifyPassword(currentPassword, user.passwordHash)))) {
+      throw new LocalAuthError('Current password is incorrect', 400)
+    }
+  } else {
+    const session = sessionId ? await prisma.session.findUnique({ where: { id: sessionId } }) : null
+    if (!session || session.userId !== userId || Date.now() - session.createdAt.getTime() > REAUTH_WINDOW_MS) {
+      throw new LocalAuthError('Sign in again before setting a password', 403)
+    }
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      passwordHash: await hashPassword(newPassword),
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      tokenVersion: { increment: 1 },
+      updatedAt: new Date(),
+    },
+  })
+  invalidateUserAuthState(userId)
+  await revokeUserSessions(userId, sessionId)
+}
@@ -0,0 +1,126 @@
+import fs from 'fs/promises'
+import path from 'path'
+import crypto from 'crypto'
+import { env } from '../config/env'
+
+export type MailTransportName = 'console' | 'file' | 'http'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+/**
+ * Sends email. Routes only talk to this interface so development can log or save
+ * messages while production hands them to a mail service.
+ */
+export interface Mailer {
+  readonly name: string
+  send(message: MailMessage): Promise<void>
+}
+
+export class MailerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MailerError'
+  }
+}
+
+/**
+ * Prints messages to the server log; for development only, as magic links end up in the log.
+ */
+export class ConsoleMailer implements Mailer {
+  readonly name = 'console'
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`)
+  }
+}
+
+/**
+ * Writes each message as an .eml file that mail clients can open.
+ */
+export class FileMailer implements Mailer {
+  readonly name = 'file'
+
+  constructor(private directory: string, private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const boundary = crypto.randomBytes(12).toString('hex')
+    const headers = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+    ]
+    const body = message.html
+      ? [
+          `Content-Type: multipart/alternative; boundary="${boundary}"`,
+          '',
+          `--${boundary}`,
+          'Content-Type: text/plain; charset=utf-8',
+          '',
+          message.text,
+          `--${boundary}`,
+          'Content-Type: text/html; charset=utf-8',
+          '',
+          message.html,
+          `--${boundary}--`,
+        ]
+      : ['Content-Type: text/plain; charset=utf-8', '', message.text]
+
+    await fs.mkdir(this.directory, { recursive: true })
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^\w.@-]/g, '_')}.eml`
+    await fs.writeFile(path.join(this.directory, fileName), [...headers, ...body].join('\r\n'))
+  }
+}
+
+/**
+ * Posts messages as JSON ({ from, to, subject, text, html }) to a mail service.
+ */
+export class HttpMailer implements Mailer {
+  readonly name = 'http'
+
+  constructor(private options: { url: string; authHeader?: string; from: string }) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.options.authHeader) {
+      headers['Authorization'] = this.options.authHeader
+    }
+
+    const response = await fetch(this.options.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ from: this.options.from, ...message }),
+      signal: AbortSignal.timeout(15000),
+    })
+    if (!response.ok) {
+      throw new MailerError(`Mail service responded with ${response.status}: ${await response.text()}`)
+    }
+  }
+}
+
+function createMailer(name: MailTransportName): Mailer {
+  switch (name) {
+    case 'console':
+      return new ConsoleMailer()
+    case 'file':
+      return new FileMailer(env.MAIL_FILE_DIR, env.MAIL_FROM)
+    case 'http':
+      if (!env.MAIL_SERVICE_URL) {
+        throw new Error('MAIL_SERVICE_URL is required when using the http mail transport')
+      }
+      return new HttpMailer({ url: env.MAIL_SERVICE_URL, authHeader: env.MAIL_SERVICE_AUTH_HEADER, from: env.MAIL_FROM })
+  }
+}
+
+let mailer: Mailer | undefined
+
+export function getMailer(): Mailer {
+  mailer ??= createMailer(env.MAIL_TRANSPORT)
+  return mailer
+}
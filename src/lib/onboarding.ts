@@ -0,0 +1,93 @@
+import crypto from 'crypto'
+import { Role, User, UserInvitation } from '@prisma/client'
+import { env } from '../config/env'
+import { prisma } from './prisma'
+
+// Who may get a user row. Existing users sign in as before; a new address needs a pending
+// invitation or, for Google sign-in, a verified address on an allow-listed domain.
+// The first SUPER_ADMIN is created with `npm run create-super-admin`.
+
+export const INVITATION_TTL_DAYS = 7
+
+export class SignInNotAllowedError extends Error {
+  constructor(message: string = 'This account has not been invited') {
+    super(message)
+    this.name = 'SignInNotAllowedError'
+  }
+}
+
+export interface SignInProfile {
+  googleId?: string
+  name?: string | null
+  image?: string | null
+}
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+export function isAllowedDomain(email: string): boolean {
+  const domain = normalizeEmail(email).split('@').pop()
+  return Boolean(domain) && env.SIGNUP_ALLOWED_DOMAINS.includes(domain!)
+}
+
+export function isInvitationPending(invitation: UserInvitation, now: Date = new Date()): boolean {
+  return !invitation.acceptedAt && invitation.expiresAt > now
+}
+
+export async function findPendingInvitation(email: string): Promise<UserInvitation | null> {
+  const invitation = await prisma.userInvitation.findUnique({ where: { email: normalizeEmail(email) } })
+  return invitation && isInvitationPending(invitation) ? invitation : null
+}
+
+async function createUser(email: string, role: Role, profile: SignInProfile, invitation?: UserInvitation): Promise<User> {
+  return prisma.$transaction(async (tx) => {
+    if (invitation) {
+      // Claimed atomically so one invitation cannot create two accounts
+      const claimed = await tx.userInvitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null },
+        data: { acceptedAt: new Date(), updatedAt: new Date() },
+      })
+      if (claimed.count === 0) throw new SignInNotAllowedError()
+    }
+
+    return tx.user.create({
+      data: {
+        id: crypto.randomUUID(),
+        email: normalizeEmail(email),
+        googleId: profile.googleId,
+        name: profile.name ?? null,
+        image: profile.image ?? null,
+        role,
+        updatedAt: new Date(),
+      },
+    })
+  })
+}
+
+/**
+ * Find the user signing in, creating them when an invitation or the domain allow-list admits the address
+ * @param email - Address the sign-in method has verified
+ * @param profile - Google profile fields, refreshed on every Google sign-in
+ * @param options - allowDomain: whether the domain allow-list applies to this sign-in method
+ * @returns User, who may still be deactivated
+ */
+export async function admitUser(email: string, profile: SignInProfile, options: { allowDomain: boolean }): Promise<User> {
+  const existing = await prisma.user.findFirst({ where: { email: { equals: email.trim(), mode: 'insensitive' } } })
+  if (existing) {
+    if (!profile.googleId) return existing
+    return prisma.user.update({
+      where: { id: existing.id },
+      data: { googleId: profile.googleId, name: profile.name ?? null, image: profile.image ?? null, updatedAt: new Date() },
+    })
+  }
+
+  const invitation = await findPendingInvitation(email)
+  if (invitation) {
+    return createUser(email, invitation.role, profile, invitation)
+  }
+
+  if (options.allowDomain && isAllowedDomain(email)) {
+    return createUser(email, Role.USER, profile)
+  }
+
+  throw new SignInNotAllowedError()
+}
@@ -0,0 +1,34 @@
+import crypto from 'crypto'
+import bcrypt from 'bcryptjs'
+
+// Password hashes are bcrypt ($2b$cost$...), so the cost can be raised later without breaking existing hashes.
+// bcrypt reads at most 72 bytes, less than MAX_PASSWORD_LENGTH characters of Korean or Cyrillic text,
+// so the password is first reduced to a fixed-length SHA-256 digest.
+
+const BCRYPT_COST = 12
+
+export const MIN_PASSWORD_LENGTH = 10
+export const MAX_PASSWORD_LENGTH = 200
+
+// Base64 of the digest: 44 bytes, and never a NUL, which bcrypt implementations stop at
+const prehash = (password: string) => crypto.createHash('sha256').update(password.normalize('NFKC')).digest('base64')
+
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(prehash(password), BCRYPT_COST)
+}
+
+/**
+ * Check a password against a stored hash; malformed hashes never match
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  if (!/^\$2[aby]\$\d{2}\$/.test(storedHash)) return false
+  return bcrypt.compare(prehash(password), storedHash)
+}
+
+// Verified when the email is unknown, so a failed login takes as long either way
+let dummyHash: Promise<string> | undefined
+
+export async function verifyDummyPassword(password: string): Promise<void> {
+  dummyHash ??= hashPassword(crypto.randomBytes(16).toString('hex'))
+  await verifyPassword(password, await dummyHash)
+}
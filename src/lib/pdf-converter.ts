@@ -0,0 +1,46 @@
+import { execFile } from 'child_process'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { promisify } from 'util'
+import { env } from '../config/env'
+
+const execFileAsync = promisify(execFile)
+
+/**
+ * Convert a .docx file to PDF with a locally installed LibreOffice (headless).
+ * Each conversion gets its own temp dir and LibreOffice profile, so parallel
+ * conversions do not fight over the profile lock.
+ * @param docx - Word document contents
+ * @returns Promise<Buffer> - PDF contents
+ */
+export async function convertDocxToPdf(docx: Buffer): Promise<Buffer> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'aliasauto-pdf-'))
+  const inputPath = path.join(workDir, 'document.docx')
+  const outputPath = path.join(workDir, 'document.pdf')
+
+  try {
+    await fs.writeFile(inputPath, docx)
+    await execFileAsync(
+      env.PDF_CONVERTER_PATH,
+      [
+        `-env:UserInstallation=file://${path.join(workDir, 'profile')}`,
+        '--headless',
+        '--convert-to',
+        'pdf',
+        '--outdir',
+        workDir,
+        inputPath,
+      ],
+      { timeout: env.PDF_CONVERTER_TIMEOUT_MS }
+    )
+    return await fs.readFile(outputPath)
+  } catch (error: any) {
+    if (error?.code === 'ENOENT' && error.syscall?.startsWith('spawn')) {
+      throw new Error(`PDF converter not found: ${env.PDF_CONVERTER_PATH}`)
+    }
+    throw error
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true })
+  }
+}
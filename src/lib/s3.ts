@@ -4,6 +4,8 @@ import { env } from '../config/env'
 
 const s3Client = new S3Client({
   region: env.AWS_REGION,
+  endpoint: env.AWS_S3_ENDPOINT,
+  forcePathStyle: Boolean(env.AWS_S3_ENDPOINT),
   credentials: env.AWS_ACCESS_KEY_ID && env.AWS_SECRET_ACCESS_KEY ? {
     accessKeyId: env.AWS_ACCESS_KEY_ID,
     secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
@@ -49,7 +51,7 @@ export class S3Service {
 
     const uploadUrl = await getSignedUrl(this.client, command, { expiresIn })
     // Return the public S3 URL for storage
-    const imageUrl = `https://${env.AWS_S3_BUCKET}.s3.${env.AWS_REGION}.amazonaws.com/${key}`
+    const imageUrl = this.getPublicUrl(key)
 
     return {
       uploadUrl,
@@ -62,17 +64,42 @@ export class S3Service {
    * Generate a presigned URL for downloading/viewing a file from S3
    * @param key - The S3 object key
    * @param expiresIn - URL expiration time in seconds (default: 3600 = 1 hour)
+   * @param downloadFileName - Optional file name to download the object as
    * @returns Promise<string>
    */
-  async generatePresignedGetUrl(key: string, expiresIn: number = 3600): Promise<string> {
+  async generatePresignedGetUrl(key: string, expiresIn: number = 3600, downloadFileName?: string): Promise<string> {
     const command = new GetObjectCommand({
       Bucket: env.AWS_S3_BUCKET,
       Key: key,
+      ResponseContentDisposition: downloadFileName ? `attachment; filename="${downloadFileName}"` : undefined,
     })
 
     return await getSignedUrl(this.client, command, { expiresIn })
   }
 
+  /**
+   * Download an object from S3 into memory
+   * @param key - The S3 object key
+   * @returns Promise<Buffer> - Object contents
+   */
+  async getObject(key: string): Promise<Buffer> {
+    if (!env.AWS_S3_BUCKET) {
+      throw new Error('AWS S3 bucket not configured')
+    }
+
+    const command = new GetObjectCommand({
+      Bucket: env.AWS_S3_BUCKET,
+      Key: key,
+    })
+
+    const response = await this.client.send(command)
+    if (!response.Body) {
+      throw new Error(`S3 object ${key} has no body`)
+    }
+
+    return Buffer.from(await response.Body.transformToByteArray())
+  }
+
   /**
    * Delete an object from S3
    * @param key - The S3 object key to delete
@@ -104,7 +131,12 @@ export class S3Service {
    */
   extractKeyFromUrl(s3Url: string): string {
     const url = new URL(s3Url)
-    return url.pathname.substring(1) // Remove leading slash
+    const path = decodeURIComponent(url.pathname.substring(1)) // Remove leading slash
+    // Path-style URLs (custom endpoint) carry the bucket as the first segment
+    if (env.AWS_S3_ENDPOINT && env.AWS_S3_BUCKET && path.startsWith(`${env.AWS_S3_BUCKET}/`)) {
+      return path.substring(env.AWS_S3_BUCKET.length + 1)
+    }
+    return path
   }
 
   /**
@@ -169,7 +201,17 @@ export class S3Service {
     await this.client.send(command)
 
     // Return the public S3 URL
-    return `https://${env.AWS_S3_BUCKET}.s3.${env.AWS_REGION}.amazonaws.com/${key}`
+    return this.getPublicUrl(key)
+  }
+
+  /**
+   * Check whether a URL points into our bucket
+   * @param url - URL to check
+   * @returns boolean
+   */
+  isBucketUrl(url: string): boolean {
+    if (!env.AWS_S3_BUCKET) return false
+    return url.startsWith(this.getPublicUrl(''))
   }
 
   /**
@@ -181,6 +223,9 @@ export class S3Service {
     if (!env.AWS_S3_BUCKET) {
       throw new Error('AWS S3 bucket not configured')
     }
+    if (env.AWS_S3_ENDPOINT) {
+      return `${env.AWS_S3_ENDPOINT.replace(/\/$/, '')}/${env.AWS_S3_BUCKET}/${key}`
+    }
     return `https://${env.AWS_S3_BUCKET}.s3.${env.AWS_REGION}.amazonaws.com/${key}`
   }
 }
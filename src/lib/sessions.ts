@@ -0,0 +1,196 @@
+import crypto from 'crypto'
+import { Request } from 'express'
+import { User } from '@prisma/client'
+import { prisma } from './prisma'
+import { signAccess, ACCESS_EXPIRES_IN_SECONDS } from './jwt'
+
+// A session is one signed-in device. Its refresh token is replaced on every refresh, and the
+// replaced tokens are kept revoked so that presenting one again can be recognized as theft.
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+// Tabs of one browser share a refresh token and often refresh together; the ones that lose the race
+// present the just-replaced token, which is only treated as reuse once this long has passed
+const REUSE_GRACE_MS = 10_000
+
+export class RefreshTokenError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RefreshTokenError'
+  }
+}
+
+export interface ClientInfo {
+  userAgent: string | null
+  ipAddress: string | null
+}
+
+export interface IssuedTokens {
+  accessToken: string
+  refreshToken: string
+  expiresIn: number
+  sessionId: string
+}
+
+export function clientInfo(req: Request): ClientInfo {
+  return {
+    userAgent: req.get('user-agent')?.slice(0, 500) ?? null,
+    ipAddress: req.ip ?? null,
+  }
+}
+
+export function hashToken(rawToken: string): string {
+  return crypto.createHash('sha256').update(rawToken).digest('hex')
+}
+
+function newRefreshToken() {
+  const raw = crypto.randomBytes(32).toString('hex')
+  return { id: crypto.randomUUID(), raw, hashedToken: hashToken(raw) }
+}
+
+// ver is compared with User.tokenVersion on every request, so bumping it cuts off issued tokens
+function signAccessToken(user: User, sessionId: string): string {
+  return signAccess({ sub: user.id, role: user.role, email: user.email, sid: sessionId, ver: user.tokenVersion })
+}
+
+/**
+ * Start a session for a user who has just signed in; other sessions are left alone
+ * @param user - Signed-in user
+ * @param client - Device the user signed in from
+ * @returns IssuedTokens
+ */
+export async function startSession(user: User, client: ClientInfo): Promise<IssuedTokens> {
+  const sessionId = crypto.randomUUID()
+  const token = newRefreshToken()
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS)
+
+  await prisma.session.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      expiresAt,
+      RefreshToken: {
+        create: { id: token.id, userId: user.id, hashedToken: token.hashedToken, expiresAt },
+      },
+    },
+  })
+
+  return {
+    accessToken: signAccessToken(user, sessionId),
+    refreshToken: token.raw,
+    expiresIn: ACCESS_EXPIRES_IN_SECONDS,
+    sessionId,
+  }
+}
+
+/**
+ * Revoke a session and every refresh token issued in it
+ * @returns Whether an active session was revoked
+ */
+export async function revokeSession(sessionId: string): Promise<boolean> {
+  const now = new Date()
+  const [sessions] = await prisma.$transaction([
+    prisma.session.updateMany({ where: { id: sessionId, revokedAt: null }, data: { revokedAt: now } }),
+    prisma.refreshToken.updateMany({ where: { sessionId, revokedAt: null }, data: { revokedAt: now } }),
+  ])
+  return sessions.count > 0
+}
+
+/**
+ * Revoke every session of a user, signing them out on all devices
+ * @param exceptSessionId - Session to keep, e.g. the one making the request
+ */
+export async function revokeUserSessions(userId: string, exceptSessionId?: string): Promise<void> {
+  const now = new Date()
+  const keep = exceptSessionId ? { not: exceptSessionId } : undefined
+  await prisma.$transaction([
+    prisma.session.updateMany({ where: { userId, id: keep, revokedAt: null }, data: { revokedAt: now } }),
+    prisma.refreshToken.updateMany({ where: { userId, sessionId: keep, revokedAt: null }, data: { revokedAt: now } }),
+  ])
+}
+
+async function revokeReusedSession(token: { userId: string; sessionId: string }) {
+  await revokeSession(token.sessionId)
+  console.warn(`Refresh token reuse detected for user ${token.userId}; session ${token.sessionId} revoked`)
+}
+
+/**
+ * Exchange a refresh token for new access and refresh tokens. A token that was already
+ * exchanged revokes its whole session: either the client or an attacker holds a stolen copy.
+ * Within REUSE_GRACE_MS of the exchange it is only refused, since another tab may have refreshed first.
+ * @param rawToken - Refresh token sent by the client
+ * @param client - Device making the request
+ * @returns The session's user and the new tokens
+ */
+export async function rotateRefreshToken(rawToken: string, client: ClientInfo): Promise<{ user: User; tokens: IssuedTokens }> {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { hashedToken: hashToken(rawToken) },
+    include: { Session: true, User: true },
+  })
+  if (!stored) {
+    throw new RefreshTokenError('Invalid refresh token')
+  }
+
+  if (stored.revokedAt) {
+    if (!stored.replacedByToken) throw new RefreshTokenError('Invalid refresh token')
+    if (Date.now() - stored.revokedAt.getTime() < REUSE_GRACE_MS) {
+      throw new RefreshTokenError('Refresh token was just replaced; use the new one')
+    }
+    await revokeReusedSession(stored)
+    throw new RefreshTokenError('Invalid refresh token')
+  }
+
+  const now = new Date()
+  if (stored.expiresAt <= now || stored.Session.revokedAt || stored.Session.expiresAt <= now) {
+    throw new RefreshTokenError('Invalid refresh token')
+  }
+  if (!stored.User.isActive) {
+    throw new RefreshTokenError('Account is deactivated')
+  }
+
+  const next = newRefreshToken()
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS)
+
+  const rotated = await prisma.$transaction(async (tx) => {
+    // Only one of two concurrent refreshes with the same token can claim it
+    const claimed = await tx.refreshToken.updateMany({
+      where: { id: stored.id, revokedAt: null },
+      data: { revokedAt: now, replacedByToken: next.id },
+    })
+    if (claimed.count === 0) return false
+
+    await tx.refreshToken.create({
+      data: { id: next.id, userId: stored.userId, sessionId: stored.sessionId, hashedToken: next.hashedToken, expiresAt },
+    })
+    await tx.session.update({
+      where: { id: stored.sessionId },
+      data: { lastUsedAt: now, expiresAt, userAgent: client.userAgent, ipAddress: client.ipAddress },
+    })
+    return true
+  })
+
+  // A concurrent refresh with the same token won; that is a second tab, not reuse
+  if (!rotated) {
+    throw new RefreshTokenError('Refresh token was just replaced; use the new one')
+  }
+
+  return {
+    user: stored.User,
+    tokens: {
+      accessToken: signAccessToken(stored.User, stored.sessionId),
+      refreshToken: next.raw,
+      expiresIn: ACCESS_EXPIRES_IN_SECONDS,
+      sessionId: stored.sessionId,
+    },
+  }
+}
+
+/**
+ * End the session a refresh token belongs to, as on logout; unknown tokens are ignored
+ */
+export async function endSessionByRefreshToken(rawToken: string): Promise<void> {
+  const stored = await prisma.refreshToken.findUnique({ where: { hashedToken: hashToken(rawToken) } })
+  if (stored) await revokeSession(stored.sessionId)
+}
@@ -0,0 +1,302 @@
+import { Response } from 'express'
+import { Readable, Writable } from 'stream'
+import { pipeline } from 'stream/promises'
+import zlib from 'zlib'
+import { z } from 'zod'
+import { CSV_CONTENT_TYPE, XLSX_CONTENT_TYPE } from './spreadsheet'
+
+// Streamed CSV/XLSX exports: rows are fetched in batches and written as they arrive,
+// so memory use does not grow with the size of the export.
+
+export const ExportFormatSchema = z.enum(['csv', 'xlsx']).default('csv')
+
+export type ExportFormat = z.infer<typeof ExportFormatSchema>
+
+export type ExportCellValue = string | number | boolean | Date | null | undefined
+
+export interface ExportColumn<T> {
+  header: string
+  value: (row: T) => ExportCellValue
+}
+
+const EXPORT_BATCH_SIZE = 500
+
+/**
+ * Fetch rows page by page with a cursor, for queries ordered with a unique tiebreaker (usually id)
+ * @param fetchPage - Loads up to `take` rows after the cursor row
+ */
+export async function* fetchInBatches<T extends { id: string | number }>(
+  fetchPage: (page: { take: number; cursor?: { id: T['id'] }; skip?: number }) => Promise<T[]>
+): AsyncGenerator<T[]> {
+  let cursor: T['id'] | undefined
+  while (true) {
+    const rows = await fetchPage({
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor !== undefined ? { cursor: { id: cursor }, skip: 1 } : {}),
+    })
+    if (rows.length > 0) yield rows
+    if (rows.length < EXPORT_BATCH_SIZE) return
+    cursor = rows[rows.length - 1].id
+  }
+}
+
+/**
+ * Write to a stream, waiting for it to drain when its buffer is full. Rejects when the stream closes or
+ * fails first, e.g. when the client aborts the download, so the rows being fetched are abandoned too.
+ */
+async function writeChunk(output: Writable, chunk: string | Buffer): Promise<void> {
+  if (output.destroyed) throw new Error('Output closed before the export finished')
+  if (output.write(chunk)) return
+
+  await new Promise<void>((resolve, reject) => {
+    const settle = (error?: Error) => {
+      output.off('drain', onDrain)
+      output.off('close', onClose)
+      output.off('error', settle)
+      if (error) reject(error)
+      else resolve()
+    }
+    const onDrain = () => settle()
+    const onClose = () => settle(new Error('Output closed before the export finished'))
+    output.on('drain', onDrain)
+    output.on('close', onClose)
+    output.on('error', settle)
+  })
+}
+
+const formatCell = (value: ExportCellValue): string | number | boolean | null => {
+  if (value === null || value === undefined) return null
+  if (value instanceof Date) return value.toISOString().replace('T', ' ').replace(/\.\d{3}Z$/, '')
+  return value
+}
+
+// Text that spreadsheet apps would run as a formula gets a leading apostrophe
+const escapeFormula = (value: string) => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value)
+
+function toCsvLine(values: ExportCellValue[]): string {
+  return values.map((raw) => {
+    const value = formatCell(raw)
+    if (value === null) return ''
+    if (typeof value !== 'string') return String(value)
+    const text = escapeFormula(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }).join(',') + '\r\n'
+}
+
+// XML 1.0 does not allow most control characters, even escaped
+const escapeXml = (value: string) =>
+  value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const columnLetters = (index: number): string => {
+  let letters = ''
+  for (let value = index + 1; value > 0; value = Math.floor((value - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((value - 1) % 26)) + letters
+  }
+  return letters
+}
+
+// Header row (style 1, bold) and data rows use inline strings, so no shared string table has to be held
+function toXlsxRow(values: ExportCellValue[], rowNumber: number, style?: number): string {
+  const cells = values.map((raw, index) => {
+    const reference = `${columnLetters(index)}${rowNumber}`
+    const styleAttribute = style ? ` s="${style}"` : ''
+    const value = formatCell(raw)
+    if (value === null) return ''
+    if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${reference}"${styleAttribute}><v>${value}</v></c>`
+    if (typeof value === 'boolean') return `<c r="${reference}"${styleAttribute} t="b"><v>${value ? 1 : 0}</v></c>`
+    return `<c r="${reference}"${styleAttribute} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+  })
+  return `<row r="${rowNumber}">${cells.join('')}</row>`
+}
+
+const XLSX_STATIC_PARTS: [string, string][] = [
+  ['[Content_Types].xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>'],
+  ['_rels/.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>'],
+  ['xl/_rels/workbook.xml.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>'],
+  ['xl/styles.xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>'],
+]
+
+const workbookXml = (sheetName: string) =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+
+/**
+ * Zip archive written straight to a stream. Entries are deflated as they are produced and their sizes
+ * and checksums follow in data descriptors, so nothing has to be buffered. No zip64: entries stay under 4GB.
+ */
+class ZipStreamWriter {
+  private offset = 0
+  private entries: { name: Buffer; crc: number; compressedSize: number; size: number; offset: number }[] = []
+  private readonly time: number
+  private readonly date: number
+
+  constructor(private readonly output: Writable) {
+    const now = new Date()
+    this.time = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2)
+    this.date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate()
+  }
+
+  private async write(chunk: Buffer) {
+    this.offset += chunk.length
+    await writeChunk(this.output, chunk)
+  }
+
+  async addEntry(fileName: string, content: AsyncIterable<string> | Iterable<string>) {
+    const name = Buffer.from(fileName, 'utf8')
+    const entry = { name, crc: 0, compressedSize: 0, size: 0, offset: this.offset }
+
+    // Bit 3: sizes follow in a data descriptor; bit 11: UTF-8 names
+    const header = Buffer.alloc(30)
+    header.writeUInt32LE(0x04034b50, 0)
+    header.writeUInt16LE(20, 4)
+    header.writeUInt16LE(0x0808, 6)
+    header.writeUInt16LE(8, 8)
+    header.writeUInt16LE(this.time, 10)
+    header.writeUInt16LE(this.date, 12)
+    header.writeUInt16LE(name.length, 26)
+    await this.write(Buffer.concat([header, name]))
+
+    const source = async function* () {
+      for await (const text of content) {
+        const chunk = Buffer.from(text, 'utf8')
+        entry.crc = zlib.crc32(chunk, entry.crc)
+        entry.size += chunk.length
+        yield chunk
+      }
+    }
+    const sink = new Writable({
+      write: (chunk: Buffer, _encoding, callback) => {
+        entry.compressedSize += chunk.length
+        this.write(chunk).then(() => callback(), callback)
+      },
+    })
+    await pipeline(Readable.from(source()), zlib.createDeflateRaw(), sink)
+
+    const descriptor = Buffer.alloc(16)
+    descriptor.writeUInt32LE(0x08074b50, 0)
+    descriptor.writeUInt32LE(entry.crc >>> 0, 4)
+    descriptor.writeUInt32LE(entry.compressedSize, 8)
+    descriptor.writeUInt32LE(entry.size, 12)
+    await this.write(descriptor)
+
+    this.entries.push(entry)
+  }
+
+  async finish() {
+    const directoryOffset = this.offset
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46)
+      header.writeUInt32LE(0x02014b50, 0)
+      header.writeUInt16LE(20, 4)
+      header.writeUInt16LE(20, 6)
+      header.writeUInt16LE(0x0808, 8)
+      header.writeUInt16LE(8, 10)
+      header.writeUInt16LE(this.time, 12)
+      header.writeUInt16LE(this.date, 14)
+      header.writeUInt32LE(entry.crc >>> 0, 16)
+      header.writeUInt32LE(entry.compressedSize, 20)
+      header.writeUInt32LE(entry.size, 24)
+      header.writeUInt16LE(entry.name.length, 28)
+      header.writeUInt32LE(entry.offset, 42)
+      await this.write(Buffer.concat([header, entry.name]))
+    }
+
+    const end = Buffer.alloc(22)
+    end.writeUInt32LE(0x06054b50, 0)
+    end.writeUInt16LE(this.entries.length, 8)
+    end.writeUInt16LE(this.entries.length, 10)
+    end.writeUInt32LE(this.offset - directoryOffset, 12)
+    end.writeUInt32LE(directoryOffset, 16)
+    await this.write(end)
+  }
+}
+
+/**
+ * Write rows as CSV (UTF-8 with BOM, so Excel reads Korean and Cyrillic text) or as a one-sheet XLSX workbook
+ * @param output - Destination; left open
+ */
+export async function writeSpreadsheet<T>(
+  output: Writable,
+  format: ExportFormat,
+  columns: ExportColumn<T>[],
+  batches: AsyncIterable<T[]>,
+  sheetName = 'Export'
+): Promise<void> {
+  const headers = columns.map((column) => column.header)
+
+  if (format === 'csv') {
+    const write = (text: string) => writeChunk(output, text)
+    await write('\uFEFF' + toCsvLine(headers))
+    for await (const rows of batches) {
+      await write(rows.map((row) => toCsvLine(columns.map((column) => column.value(row)))).join(''))
+    }
+    return
+  }
+
+  const zip = new ZipStreamWriter(output)
+  for (const [name, content] of XLSX_STATIC_PARTS) {
+    await zip.addEntry(name, [content])
+  }
+  await zip.addEntry('xl/workbook.xml', [workbookXml(sheetName)])
+  await zip.addEntry('xl/worksheets/sheet1.xml', (async function* () {
+    yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>'
+    yield toXlsxRow(headers, 1, 1)
+    let rowNumber = 1
+    for await (const rows of batches) {
+      yield rows.map((row) => toXlsxRow(columns.map((column) => column.value(row)), ++rowNumber)).join('')
+    }
+    yield '</sheetData></worksheet>'
+  })())
+  await zip.finish()
+}
+
+/**
+ * Stream an export as a file download. Once the first bytes are out, a failure can only cut the
+ * response short, so it is logged and the connection closed.
+ * @param fileName - Download name without extension
+ */
+export async function sendSpreadsheet<T>(
+  res: Response,
+  options: { format: ExportFormat; fileName: string; columns: ExportColumn<T>[]; batches: AsyncIterable<T[]>; sheetName?: string }
+): Promise<void> {
+  const { format, fileName, columns, batches, sheetName } = options
+  const name = `${fileName}.${format}`
+
+  res.status(200)
+  res.setHeader('Content-Type', format === 'csv' ? `${CSV_CONTENT_TYPE}; charset=utf-8` : XLSX_CONTENT_TYPE)
+  res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(name)}`)
+
+  try {
+    await writeSpreadsheet(res, format, columns, batches, sheetName)
+    res.end()
+  } catch (error) {
+    // An aborted download has nothing left to clean up; the batches stopped with the failed write
+    if (res.destroyed) return
+    console.error(`Export ${name} error:`, error)
+    res.destroy(error instanceof Error ? error : undefined)
+  }
+}
+
+/**
+ * Value of a localized text field ({ ru, en, ... } or a plain string) in one language
+ */
+export function localizedText(value: unknown, language: string): string {
+  if (typeof value === 'string') return value
+  if (value && typeof value === 'object') {
+    const text = (value as Record<string, unknown>)[language]
+    return typeof text === 'string' ? text : ''
+  }
+  return ''
+}
+
+/**
+ * Timestamped download name, e.g. invoices-20261019-1530
+ */
+export function exportFileName(prefix: string, date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${prefix}-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`
+}
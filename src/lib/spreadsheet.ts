@@ -0,0 +1,247 @@
+import PizZip from 'pizzip'
+
+// Minimal CSV and XLSX reading for imports: every cell comes back as trimmed text,
+// XLSX dates as YYYY-MM-DD. Only the first worksheet of a workbook is read.
+// Blank rows are kept, so an index in the result is the row number in the file minus one.
+
+export const CSV_CONTENT_TYPE = 'text/csv'
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SpreadsheetError'
+  }
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting). The delimiter is detected from the first line, since
+ * Excel writes semicolons in locales that use a decimal comma.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '')
+  const firstLine = content.slice(0, content.search(/\r?\n|$/))
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  )
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index]
+
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        cell += '"'
+        index++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') index++
+      row.push(cell.trim())
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (quoted) throw new SpreadsheetError('CSV has an unterminated quoted value')
+  if (cell !== '' || row.length > 0) {
+    row.push(cell.trim())
+    rows.push(row)
+  }
+
+  return rows
+}
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+
+// Text of all <t> runs inside a shared or inline string
+const readRichText = (xml: string) =>
+  [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((match) => decodeXml(match[1])).join('')
+
+const attribute = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1]
+
+// Column letters of a cell reference to a zero-based index, e.g. C7 -> 2
+const columnIndex = (reference: string) =>
+  reference.replace(/\d+$/, '').split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+
+// Built-in number formats 14-22 and 45-47 are dates or times
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47])
+
+/**
+ * Style indexes whose number format shows a date; such cells hold a day count from 1899-12-30
+ */
+function readDateStyles(zip: PizZip): Set<number> {
+  const styles = zip.file('xl/styles.xml')?.asText()
+  if (!styles) return new Set()
+
+  const customDateFormats = new Set(
+    [...styles.matchAll(/<numFmt\s[^>]*>/g)]
+      .filter(([tag]) => /[dmy]/i.test(decodeXml(attribute(tag, 'formatCode') ?? '').replace(/"[^"]*"|\[[^\]]*\]/g, '')))
+      .map(([tag]) => Number(attribute(tag, 'numFmtId')))
+  )
+
+  const cellXfs = styles.match(/<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? ''
+  const dateStyles = new Set<number>()
+  ;[...cellXfs.matchAll(/<xf\s[^>]*>/g)].forEach(([tag], index) => {
+    const formatId = Number(attribute(tag, 'numFmtId') ?? 0)
+    if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(index)
+  })
+  return dateStyles
+}
+
+function excelSerialToDate(serial: number): string {
+  const date = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400000))
+  return date.toISOString().split('T')[0]
+}
+
+// Well above what a 1000-row import expands to; larger archives are refused before anything is inflated
+const MAX_XLSX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024
+
+/**
+ * Refuse archives whose entries expand past the limit (zip bombs), using the sizes in the zip's
+ * central directory so nothing is inflated first
+ * @throws SpreadsheetError when the archive is too large or its directory cannot be read
+ */
+function checkZipSizes(buffer: Buffer): void {
+  // The end of central directory record is the last 22 bytes, plus a comment of up to 64 KiB
+  let end = -1
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      end = offset
+      break
+    }
+  }
+  if (end === -1) {
+    throw new SpreadsheetError('File is not a valid .xlsx workbook')
+  }
+
+  const entries = buffer.readUInt16LE(end + 10)
+  let offset = buffer.readUInt32LE(end + 16)
+  let total = 0
+
+  for (let entry = 0; entry < entries; entry++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new SpreadsheetError('File is not a valid .xlsx workbook')
+    }
+    // 0xffffffff means the real size is in a ZIP64 field; no workbook needs those
+    const size = buffer.readUInt32LE(offset + 24)
+    total += size
+    if (size === 0xffffffff || total > MAX_XLSX_UNCOMPRESSED_BYTES) {
+      throw new SpreadsheetError('Workbook is too large to import')
+    }
+    offset += 46 + buffer.readUInt16LE(offset + 28) + buffer.readUInt16LE(offset + 30) + buffer.readUInt16LE(offset + 32)
+  }
+}
+
+/**
+ * Read the first worksheet of an .xlsx workbook
+ * @param buffer - Workbook file contents
+ * @returns Rows of cell text
+ */
+export function readXlsx(buffer: Buffer): string[][] {
+  if (buffer.length < 22) {
+    throw new SpreadsheetError('File is not a valid .xlsx workbook')
+  }
+  checkZipSizes(buffer)
+
+  let zip: PizZip
+  try {
+    zip = new PizZip(buffer)
+  } catch {
+    throw new SpreadsheetError('File is not a valid .xlsx workbook')
+  }
+
+  const workbook = zip.file('xl/workbook.xml')?.asText()
+  const relationships = zip.file('xl/_rels/workbook.xml.rels')?.asText()
+  if (!workbook || !relationships) {
+    throw new SpreadsheetError('File is not a valid .xlsx workbook')
+  }
+
+  // Follow the first <sheet> to its part, e.g. worksheets/sheet1.xml
+  const sheetTag = workbook.match(/<sheet\s[^>]*>/)?.[0]
+  const relationId = sheetTag && (attribute(sheetTag, 'r:id') ?? attribute(sheetTag, 'id'))
+  const relationTag = [...relationships.matchAll(/<Relationship\s[^>]*>/g)]
+    .map(([tag]) => tag)
+    .find((tag) => attribute(tag, 'Id') === relationId)
+  const target = relationTag && attribute(relationTag, 'Target')
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : null
+  const sheet = sheetPath ? zip.file(sheetPath)?.asText() : null
+  if (!sheet) {
+    throw new SpreadsheetError('Workbook has no worksheet')
+  }
+
+  const sharedStringsXml = zip.file('xl/sharedStrings.xml')?.asText() ?? ''
+  const sharedStrings = [...sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((match) => readRichText(match[1]))
+  const dateStyles = readDateStyles(zip)
+
+  const rows: string[][] = []
+  for (const [, rowTag, rowXml] of sheet.matchAll(/(<row[^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    // Rows without cells may be left out of the file entirely
+    const rowNumber = Number(attribute(rowTag, 'r') ?? rows.length + 1)
+    while (rows.length < rowNumber - 1) rows.push([])
+
+    const row: string[] = []
+
+    for (const [, cellTag, cellBody = ''] of (rowXml ?? '').matchAll(/(<c\s[^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = attribute(cellTag, 'r')
+      const index = reference ? columnIndex(reference) : row.length
+      const type = attribute(cellTag, 't')
+      const style = Number(attribute(cellTag, 's') ?? -1)
+      const raw = cellBody.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+
+      let value = ''
+      if (type === 's') value = raw !== undefined ? sharedStrings[Number(raw)] ?? '' : ''
+      else if (type === 'inlineStr') value = readRichText(cellBody)
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE'
+      else if (raw !== undefined) {
+        value = !type && dateStyles.has(style) && raw !== '' ? excelSerialToDate(Number(raw)) : decodeXml(raw)
+      }
+
+      while (row.length < index) row.push('')
+      row[index] = value.trim()
+    }
+
+    rows.push(row)
+  }
+
+  return rows
+}
+
+/**
+ * Read a CSV or XLSX upload, telling them apart by content rather than the file name
+ * @param buffer - File contents
+ * @returns Rows of cell text
+ */
+export function readSpreadsheet(buffer: Buffer): string[][] {
+  // XLSX files are zip archives, which start with PK
+  if (buffer.length >= 2 && buffer[0] === 0x50 && buffer[1] === 0x4b) {
+    return readXlsx(buffer)
+  }
+  return parseCsv(buffer.toString('utf8'))
+}
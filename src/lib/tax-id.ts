@@ -0,0 +1,125 @@
+import crypto from 'crypto'
+import { Country, TaxIdAlgorithm } from '@prisma/client'
+
+// Checks for consignee tax identifiers (IIN, INN, TIN), selected per country by Country.taxIdAlgorithm.
+// Countries without an algorithm or pattern accept any non-empty value.
+
+type TaxIdValidator = (digits: number[]) => string | null
+
+const weightedSum = (digits: number[], weights: number[]) =>
+  weights.reduce((sum, weight, index) => sum + digits[index] * weight, 0)
+
+/**
+ * Kazakhstan IIN/BIN: 12 digits, the last one a mod-11 check digit.
+ * If the first pass gives 10, a second set of weights is used; 10 again means the number is never issued.
+ */
+const kazakhstanIinCheckDigit = (digits: number[]) => {
+  const check = weightedSum(digits, [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]) % 11
+  return check === 10 ? weightedSum(digits, [3, 4, 5, 6, 7, 8, 9, 10, 11, 1, 2]) % 11 : check
+}
+
+const validateKazakhstanIin: TaxIdValidator = (digits) => {
+  if (digits.length !== 12) return 'IIN must be 12 digits'
+
+  const check = kazakhstanIinCheckDigit(digits)
+  if (check === 10 || check !== digits[11]) return 'IIN check digit is invalid'
+  return null
+}
+
+/**
+ * Russian INN: 10 digits for organizations (one check digit), 12 for individuals (two)
+ */
+const RU_INN_WEIGHTS_10 = [2, 4, 10, 3, 5, 9, 4, 6, 8]
+const RU_INN_WEIGHTS_11 = [7, 2, 4, 10, 3, 5, 9, 4, 6, 8]
+const RU_INN_WEIGHTS_12 = [3, 7, 2, 4, 10, 3, 5, 9, 4, 6, 8]
+
+const russianInnCheckDigit = (digits: number[], weights: number[]) => (weightedSum(digits, weights) % 11) % 10
+
+const validateRussianInn: TaxIdValidator = (digits) => {
+  if (digits.length === 10) {
+    return russianInnCheckDigit(digits, RU_INN_WEIGHTS_10) === digits[9] ? null : 'INN checksum is invalid'
+  }
+  if (digits.length === 12) {
+    const valid =
+      russianInnCheckDigit(digits, RU_INN_WEIGHTS_11) === digits[10] &&
+      russianInnCheckDigit(digits, RU_INN_WEIGHTS_12) === digits[11]
+    return valid ? null : 'INN checksum is invalid'
+  }
+  return 'INN must be 10 or 12 digits'
+}
+
+/**
+ * Uzbekistan: 9-digit TIN, or the 14-digit personal number (PINFL) individuals use instead
+ */
+const validateUzbekTin: TaxIdValidator = (digits) =>
+  digits.length === 9 || digits.length === 14 ? null : 'TIN must be 9 digits (or a 14-digit PINFL)'
+
+const TAX_ID_VALIDATORS: Record<TaxIdAlgorithm, TaxIdValidator> = {
+  KZ_IIN: validateKazakhstanIin,
+  RU_INN: validateRussianInn,
+  UZ_TIN: validateUzbekTin,
+}
+
+export type TaxIdRules = Pick<Country, 'taxIdLabel' | 'taxIdAlgorithm' | 'taxIdPattern'>
+
+// Spaces and dashes are common when IDs are copied from documents
+export function normalizeTaxId(value: string): string {
+  return value.replace(/[\s-]/g, '')
+}
+
+/**
+ * Check a tax identifier against the rules of the consignee's country
+ * @param rules - Tax ID settings of the country
+ * @param value - Identifier as entered; spaces and dashes are ignored
+ * @returns Error message, or null when the value is acceptable
+ */
+export function validateTaxId(rules: TaxIdRules, value: string): string | null {
+  const normalized = normalizeTaxId(value)
+  if (!normalized) return `${rules.taxIdLabel} is required`
+
+  if (rules.taxIdPattern && !new RegExp(rules.taxIdPattern).test(normalized)) {
+    return `${rules.taxIdLabel} has an invalid format`
+  }
+
+  if (!rules.taxIdAlgorithm) return null
+
+  if (!/^\d+$/.test(normalized)) return `${rules.taxIdLabel} must contain digits only`
+  return TAX_ID_VALIDATORS[rules.taxIdAlgorithm](normalized.split('').map(Number))
+}
+
+const randomDigits = (length: number) => Array.from({ length }, () => crypto.randomInt(10))
+
+/**
+ * Random identifier that passes the algorithm's check, for placeholder consignees on 'fake' invoices
+ */
+export function generateTaxId(algorithm: TaxIdAlgorithm): string {
+  switch (algorithm) {
+    case 'KZ_IIN':
+      for (;;) {
+        const digits = randomDigits(11)
+        const check = kazakhstanIinCheckDigit(digits)
+        if (check !== 10) return [...digits, check].join('')
+      }
+    case 'RU_INN': {
+      const digits = randomDigits(10)
+      digits.push(russianInnCheckDigit(digits, RU_INN_WEIGHTS_11))
+      digits.push(russianInnCheckDigit(digits, RU_INN_WEIGHTS_12))
+      return digits.join('')
+    }
+    case 'UZ_TIN':
+      // PINFL: the first digit encodes sex and century of birth (3-6)
+      return [3 + crypto.randomInt(4), ...randomDigits(13)].join('')
+  }
+}
+
+/**
+ * Whether a tax ID pattern entered by an admin compiles as a regular expression
+ */
+export function isValidTaxIdPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { totp, base32Encode, base32Decode, verifyTotp, TotpAlgorithm } from './totp'
+
+// Each algorithm uses the ASCII digits 1234567890 repeated to its key length
+const SEEDS: Record<TotpAlgorithm, Buffer> = {
+  sha1: Buffer.from('12345678901234567890'),
+  sha256: Buffer.from('12345678901234567890123456789012'),
+  sha512: Buffer.from('1234567890123456789012345678901234567890123456789012345678901234'),
+}
+
+// RFC 6238 appendix B
+const VECTORS: [number, TotpAlgorithm, string][] = [
+  [59, 'sha1', '94287082'],
+  [59, 'sha256', '46119246'],
+  [59, 'sha512', '90693936'],
+  [1111111109, 'sha1', '07081804'],
+  [1111111109, 'sha256', '68084774'],
+  [1111111109, 'sha512', '25091201'],
+  [1111111111, 'sha1', '14050471'],
+  [1111111111, 'sha256', '67062674'],
+  [1111111111, 'sha512', '99943326'],
+  [1234567890, 'sha1', '89005924'],
+  [1234567890, 'sha256', '91819424'],
+  [1234567890, 'sha512', '93441116'],
+  [2000000000, 'sha1', '69279037'],
+  [2000000000, 'sha256', '90698825'],
+  [2000000000, 'sha512', '38618901'],
+  [20000000000, 'sha1', '65353130'],
+  [20000000000, 'sha256', '77737706'],
+  [20000000000, 'sha512', '47863826'],
+]
+
+describe('totp', () => {
+  for (const [seconds, algorithm, expected] of VECTORS) {
+    it(`matches RFC 6238 at T=${seconds} with ${algorithm.toUpperCase()}`, () => {
+      assert.equal(totp(SEEDS[algorithm], seconds * 1000, { algorithm, digits: 8 }), expected)
+    })
+  }
+})
+
+describe('base32', () => {
+  it('encodes the RFC 6238 seed and decodes it back', () => {
+    const secret = base32Encode(SEEDS.sha1)
+    assert.equal(secret, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+    assert.deepEqual(base32Decode(secret), SEEDS.sha1)
+  })
+})
+
+describe('verifyTotp', () => {
+  const secret = base32Encode(SEEDS.sha1)
+
+  it('accepts a code from the previous step', () => {
+    assert.equal(verifyTotp(secret, totp(SEEDS.sha1, 90_000), { timeMs: 120_000 }), 3)
+  })
+
+  it('rejects a code from two steps ago', () => {
+    assert.equal(verifyTotp(secret, totp(SEEDS.sha1, 60_000), { timeMs: 120_000 }), null)
+  })
+
+  it('does not accept a step that was already used', () => {
+    assert.equal(verifyTotp(secret, totp(SEEDS.sha1, 120_000), { timeMs: 120_000, notAfterStep: 4 }), null)
+  })
+})
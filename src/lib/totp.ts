@@ -0,0 +1,121 @@
+import crypto from 'crypto'
+
+// Time-based one-time passwords (RFC 6238) on top of HOTP (RFC 4226), with the base32
+// secrets (RFC 4648) authenticator apps expect. Checked against the RFC 6238 test vectors
+// in totp.test.ts.
+
+export type TotpAlgorithm = 'sha1' | 'sha256' | 'sha512'
+
+export interface TotpOptions {
+  algorithm?: TotpAlgorithm
+  digits?: number
+  stepSeconds?: number
+}
+
+const DEFAULTS: Required<TotpOptions> = { algorithm: 'sha1', digits: 6, stepSeconds: 30 }
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export function base32Encode(data: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+  for (const byte of data) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  return output
+}
+
+/**
+ * Decode base32, ignoring case, spaces and padding as apps display secrets in groups
+ */
+export function base32Decode(text: string): Buffer {
+  const clean = text.toUpperCase().replace(/[\s=-]/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) throw new Error(`Invalid base32 character "${char}"`)
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+// 160 bits, the key length RFC 4226 recommends for HMAC-SHA1
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20))
+}
+
+/**
+ * HOTP value for a counter (RFC 4226 section 5.3)
+ */
+export function hotp(key: Buffer, counter: number, options: Pick<TotpOptions, 'algorithm' | 'digits'> = {}): string {
+  const { algorithm, digits } = { ...DEFAULTS, ...options }
+  const message = Buffer.alloc(8)
+  message.writeBigUInt64BE(BigInt(counter))
+
+  const digest = crypto.createHmac(algorithm, key).update(message).digest()
+  const offset = digest[digest.length - 1] & 0x0f
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff
+  return String(binary % 10 ** digits).padStart(digits, '0')
+}
+
+export function totpStep(timeMs: number, stepSeconds: number = DEFAULTS.stepSeconds): number {
+  return Math.floor(timeMs / 1000 / stepSeconds)
+}
+
+/**
+ * TOTP value at a moment in time
+ */
+export function totp(key: Buffer, timeMs: number, options: TotpOptions = {}): string {
+  const { stepSeconds, ...rest } = { ...DEFAULTS, ...options }
+  return hotp(key, totpStep(timeMs, stepSeconds), rest)
+}
+
+/**
+ * Check a code against the current step and `window` steps either side, allowing for clock drift
+ * @param secret - Base32 secret
+ * @param code - Code as typed; spaces are ignored
+ * @param options - notAfterStep: last step already used, so a code cannot be replayed
+ * @returns The matching step, or null
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: TotpOptions & { timeMs?: number; window?: number; notAfterStep?: number | null } = {}
+): number | null {
+  const { timeMs = Date.now(), window = 1, notAfterStep = null, ...totpOptions } = options
+  const { stepSeconds, digits, algorithm } = { ...DEFAULTS, ...totpOptions }
+  const candidate = code.replace(/\s/g, '')
+  if (!new RegExp(`^\\d{${digits}}$`).test(candidate)) return null
+
+  const key = base32Decode(secret)
+  const current = totpStep(timeMs, stepSeconds)
+  for (let step = current - window; step <= current + window; step++) {
+    if (notAfterStep !== null && step <= notAfterStep) continue
+    const expected = hotp(key, step, { digits, algorithm })
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(candidate))) return step
+  }
+  return null
+}
+
+/**
+ * otpauth:// URI that authenticator apps scan from a QR code
+ */
+export function totpUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`)
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DEFAULTS.digits), period: String(DEFAULTS.stepSeconds) })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
@@ -0,0 +1,271 @@
+import crypto from 'crypto'
+import { Prisma, User } from '@prisma/client'
+import { env } from '../config/env'
+import { prisma } from './prisma'
+import { hashToken, revokeUserSessions } from './sessions'
+import { generateTotpSecret, totpUri, verifyTotp, base32Encode } from './totp'
+import { invalidateUserAuthState } from './user-auth-state'
+
+// TOTP second step. After the first factor (Google, password or magic link) a user with 2FA,
+// or whose role requires it, gets a short-lived challenge instead of tokens. The challenge is
+// answered with a code, or used to enrol when the role requires 2FA and none is set up yet.
+
+const CHALLENGE_TTL_MS = 10 * 60 * 1000
+const MAX_CHALLENGE_ATTEMPTS = 5
+const RECOVERY_CODE_COUNT = 10
+
+/**
+ * Second-step failure, carrying the HTTP status the API should answer with
+ */
+export class TwoFactorError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message)
+    this.name = 'TwoFactorError'
+  }
+}
+
+export function isTwoFactorRequired(user: Pick<User, 'role'>): boolean {
+  return env.TWO_FACTOR_REQUIRED_ROLES.includes(user.role)
+}
+
+export function isTwoFactorEnabled(user: Pick<User, 'totpEnabledAt'>): boolean {
+  return Boolean(user.totpEnabledAt)
+}
+
+// Secrets must be readable to check codes, so they are encrypted (AES-256-GCM) rather than hashed
+const ENCRYPTION_KEY = crypto.createHash('sha256').update(env.TOTP_ENCRYPTION_KEY).digest()
+
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv)
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+  return ['v1', iv.toString('base64'), cipher.getAuthTag().toString('base64'), encrypted.toString('base64')].join('.')
+}
+
+// Fails when TOTP_ENCRYPTION_KEY has changed since the secret was stored; the user's 2FA then has to be reset
+function decryptSecret(stored: string): string {
+  try {
+    const [, iv, tag, encrypted] = stored.split('.')
+    const decipher = crypto.createDecipheriv('aes-256-gcm', ENCRYPTION_KEY, Buffer.from(iv, 'base64'))
+    decipher.setAuthTag(Buffer.from(tag, 'base64'))
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8')
+  } catch (error) {
+    console.error('Decrypt TOTP secret error:', error)
+    throw new TwoFactorError('Two-factor authentication cannot be checked; ask an administrator to reset it', 500)
+  }
+}
+
+// Recovery codes look like ABCDE-FGHIJ; case and dashes do not matter when typed back
+const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[^A-Z2-7]/g, '')
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10)
+    return `${code.slice(0, 5)}-${code.slice(5)}`
+  })
+}
+
+async function replaceRecoveryCodes(userId: string, tx: Prisma.TransactionClient = prisma): Promise<string[]> {
+  const codes = generateRecoveryCodes()
+  await tx.recoveryCode.deleteMany({ where: { userId } })
+  await tx.recoveryCode.createMany({
+    data: codes.map((code) => ({ id: crypto.randomUUID(), userId, hashedCode: hashToken(normalizeRecoveryCode(code)) })),
+  })
+  return codes
+}
+
+/**
+ * Check a TOTP code for a user with 2FA set up. Each code works once.
+ */
+async function checkCode(user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret) return false
+  const step = verifyTotp(decryptSecret(user.totpSecret), code, { notAfterStep: user.totpLastUsedStep })
+  if (step === null) return false
+
+  // Claimed conditionally so the same code sent twice at once is accepted only once
+  const claimed = await prisma.user.updateMany({
+    where: { id: user.id, OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }] },
+    data: { totpLastUsedStep: step },
+  })
+  return claimed.count > 0
+}
+
+async function useRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const used = await prisma.recoveryCode.updateMany({
+    where: { userId, hashedCode: hashToken(normalizeRecoveryCode(code)), usedAt: null },
+    data: { usedAt: new Date() },
+  })
+  return used.count > 0
+}
+
+async function requireCode(user: User, code: string): Promise<void> {
+  if (!(await checkCode(user, code))) {
+    throw new TwoFactorError('Invalid authentication code')
+  }
+}
+
+/**
+ * Start the second step for a user who passed the first factor
+ * @returns Token the client sends back with the code
+ */
+export async function createChallenge(userId: string): Promise<{ challengeToken: string; challengeExpiresIn: number }> {
+  const rawToken = crypto.randomBytes(32).toString('hex')
+  await prisma.twoFactorChallenge.create({
+    data: {
+      id: crypto.randomUUID(),
+      userId,
+      hashedToken: hashToken(rawToken),
+      expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS),
+    },
+  })
+  return { challengeToken: rawToken, challengeExpiresIn: CHALLENGE_TTL_MS / 1000 }
+}
+
+export async function loadChallenge(rawToken: string) {
+  const challenge = await prisma.twoFactorChallenge.findUnique({
+    where: { hashedToken: hashToken(rawToken) },
+    include: { User: true },
+  })
+  if (!challenge || challenge.expiresAt <= new Date() || challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+    throw new TwoFactorError('Sign-in challenge is invalid or has expired; sign in again', 401)
+  }
+  if (!challenge.User.isActive) {
+    throw new TwoFactorError('Account is deactivated', 403)
+  }
+  return challenge
+}
+
+export async function completeChallenge(challengeId: string): Promise<void> {
+  await prisma.twoFactorChallenge.deleteMany({ where: { id: challengeId } })
+}
+
+/**
+ * Answer a challenge with a TOTP code or an unused recovery code. Wrong answers count
+ * towards a limit, after which the user has to sign in again.
+ * @returns The user, ready for a session
+ */
+export async function verifyChallenge(rawToken: string, answer: { code?: string; recoveryCode?: string }): Promise<User> {
+  const challenge = await loadChallenge(rawToken)
+  const user = challenge.User
+  if (!isTwoFactorEnabled(user)) {
+    throw new TwoFactorError('Two-factor authentication is not set up; use the challenge to set it up')
+  }
+
+  // Every answer takes an attempt before it is checked, so concurrent guesses cannot exceed the limit
+  const reserved = await prisma.twoFactorChallenge.updateMany({
+    where: { id: challenge.id, attempts: { lt: MAX_CHALLENGE_ATTEMPTS } },
+    data: { attempts: { increment: 1 } },
+  })
+  if (reserved.count === 0) {
+    throw new TwoFactorError('Sign-in challenge is invalid or has expired; sign in again', 401)
+  }
+
+  const valid = answer.code
+    ? await checkCode(user, answer.code)
+    : answer.recoveryCode
+      ? await useRecoveryCode(user.id, answer.recoveryCode)
+      : false
+  if (!valid) {
+    throw new TwoFactorError('Invalid authentication code', 401)
+  }
+
+  await completeChallenge(challenge.id)
+  return user
+}
+
+/**
+ * Generate a new secret for the user to add to their authenticator app. 2FA is not on until confirmed with a code.
+ * @returns The base32 secret and the otpauth:// URI to show as a QR code
+ */
+export async function beginEnrollment(userId: string): Promise<{ secret: string; otpauthUrl: string }> {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } })
+  if (isTwoFactorEnabled(user)) {
+    throw new TwoFactorError('Two-factor authentication is already enabled', 409)
+  }
+
+  const secret = generateTotpSecret()
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpSecret: encryptSecret(secret), totpLastUsedStep: null, updatedAt: new Date() },
+  })
+  return { secret, otpauthUrl: totpUri(secret, user.email, env.TOTP_ISSUER) }
+}
+
+/**
+ * Turn 2FA on once the user proves their app produces codes for the new secret
+ * @returns Recovery codes, shown to the user this once
+ */
+export async function enableTwoFactor(userId: string, code: string): Promise<string[]> {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } })
+  if (isTwoFactorEnabled(user)) {
+    throw new TwoFactorError('Two-factor authentication is already enabled', 409)
+  }
+  if (!user.totpSecret) {
+    throw new TwoFactorError('Start two-factor setup first')
+  }
+  await requireCode(user, code)
+
+  return prisma.$transaction(async (tx) => {
+    await tx.user.update({ where: { id: userId }, data: { totpEnabledAt: new Date(), updatedAt: new Date() } })
+    return replaceRecoveryCodes(userId, tx)
+  })
+}
+
+/**
+ * Replace all recovery codes, for a user who used or lost them
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } })
+  if (!isTwoFactorEnabled(user)) {
+    throw new TwoFactorError('Two-factor authentication is not enabled')
+  }
+  await requireCode(user, code)
+  return replaceRecoveryCodes(userId)
+}
+
+async function clearTwoFactor(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorChallenge.deleteMany({ where: { userId } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null, updatedAt: new Date() },
+    }),
+  ])
+}
+
+/**
+ * Turn 2FA off at the user's request; not allowed for roles that require it
+ */
+export async function disableTwoFactor(userId: string, code: string): Promise<void> {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } })
+  if (isTwoFactorRequired(user)) {
+    throw new TwoFactorError('Two-factor authentication is required for your role', 403)
+  }
+  if (!isTwoFactorEnabled(user)) {
+    throw new TwoFactorError('Two-factor authentication is not enabled')
+  }
+  await requireCode(user, code)
+  await clearTwoFactor(userId)
+}
+
+/**
+ * Remove another user's 2FA, e.g. after a lost phone, and sign them out everywhere.
+ * They set it up again on their next sign-in if their role requires it.
+ */
+export async function resetTwoFactor(userId: string): Promise<void> {
+  await clearTwoFactor(userId)
+  await prisma.user.update({ where: { id: userId }, data: { tokenVersion: { increment: 1 } } })
+  invalidateUserAuthState(userId)
+  await revokeUserSessions(userId)
+}
+
+export async function getTwoFactorStatus(user: User) {
+  const recoveryCodesRemaining = await prisma.recoveryCode.count({ where: { userId: user.id, usedAt: null } })
+  return {
+    enabled: isTwoFactorEnabled(user),
+    enabledAt: user.totpEnabledAt,
+    required: isTwoFactorRequired(user),
+    recoveryCodesRemaining,
+  }
+}
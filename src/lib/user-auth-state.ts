@@ -0,0 +1,39 @@
+import { Role } from '@prisma/client'
+import { prisma } from './prisma'
+
+// What every authenticated request checks against the database. Lookups are cached briefly so a
+// burst of requests costs one query; changes made by another instance apply within CACHE_TTL_MS.
+
+const CACHE_TTL_MS = 30 * 1000
+
+export interface UserAuthState {
+  id: string
+  email: string
+  role: Role
+  isActive: boolean
+  tokenVersion: number
+}
+
+const cache = new Map<string, { state: UserAuthState | null; expiresAt: number }>()
+
+/**
+ * Current role, activity and token version of a user
+ * @param userId - User ID from the access token
+ * @returns UserAuthState, or null when the user no longer exists
+ */
+export async function getUserAuthState(userId: string): Promise<UserAuthState | null> {
+  const cached = cache.get(userId)
+  if (cached && cached.expiresAt > Date.now()) return cached.state
+
+  const state = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, role: true, isActive: true, tokenVersion: true },
+  })
+  cache.set(userId, { state, expiresAt: Date.now() + CACHE_TTL_MS })
+  return state
+}
+
+// Call after changing a user's role, activity or token version so this instance applies it at once
+export function invalidateUserAuthState(userId: string): void {
+  cache.delete(userId)
+}
@@ -0,0 +1,32 @@
+import { Prisma, User } from '@prisma/client'
+
+// User columns safe to send to clients; credentials and lockout state never leave the server
+export const PUBLIC_USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  image: true,
+  googleId: true,
+  role: true,
+  isActive: true,
+  totpEnabledAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect
+
+export type PublicUser = Prisma.UserGetPayload<{ select: typeof PUBLIC_USER_SELECT }>
+
+export function toPublicUser(user: User): PublicUser {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    image: user.image,
+    googleId: user.googleId,
+    role: user.role,
+    isActive: user.isActive,
+    totpEnabledAt: user.totpEnabledAt,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  }
+}
@@ -0,0 +1,150 @@
+import { z } from 'zod'
+
+// Fuel types and transmissions shared by car records, collections and invoice documents.
+// Values are stored as the lower-case codes below; labels are for display only.
+
+export const VOCABULARY_LANGUAGES = ['ru', 'en', 'uz', 'kz', 'ko'] as const
+
+export type VocabularyLanguage = typeof VOCABULARY_LANGUAGES[number]
+
+export type LocalizedLabel = Record<VocabularyLanguage, string>
+
+export const FUEL_TYPES = ['gasoline', 'diesel', 'hybrid', 'plug_in_hybrid', 'electric', 'lpg', 'hydrogen'] as const
+
+export type FuelType = typeof FUEL_TYPES[number]
+
+export const TRANSMISSIONS = ['automatic', 'manual', 'cvt', 'dct'] as const
+
+export type Transmission = typeof TRANSMISSIONS[number]
+
+export const DEFAULT_FUEL_TYPE: FuelType = 'gasoline'
+
+export const FUEL_TYPE_LABELS: Record<FuelType, LocalizedLabel> = {
+  gasoline: { ru: 'Бензин', en: 'Gasoline', uz: 'Benzin', kz: 'Бензин', ko: '휘발유' },
+  diesel: { ru: 'Дизель', en: 'Diesel', uz: 'Dizel', kz: 'Дизель', ko: '디젤' },
+  hybrid: { ru: 'Гибрид', en: 'Hybrid', uz: 'Gibrid', kz: 'Гибрид', ko: '하이브리드' },
+  plug_in_hybrid: { ru: 'Подключаемый гибрид', en: 'Plug-in hybrid', uz: 'Plagin-gibrid', kz: 'Қосылатын гибрид', ko: '플러그인 하이브리드' },
+  electric: { ru: 'Электро', en: 'Electric', uz: 'Elektr', kz: 'Электр', ko: '전기' },
+  lpg: { ru: 'Газ (LPG)', en: 'LPG', uz: 'Gaz (LPG)', kz: 'Газ (LPG)', ko: 'LPG' },
+  hydrogen: { ru: 'Водород', en: 'Hydrogen', uz: 'Vodorod', kz: 'Сутегі', ko: '수소' },
+}
+
+export const TRANSMISSION_LABELS: Record<Transmission, LocalizedLabel> = {
+  automatic: { ru: 'Автомат', en: 'Automatic', uz: 'Avtomat', kz: 'Автомат', ko: '자동' },
+  manual: { ru: 'Механика', en: 'Manual', uz: 'Mexanika', kz: 'Механика', ko: '수동' },
+  cvt: { ru: 'Вариатор', en: 'CVT', uz: 'Variator', kz: 'Вариатор', ko: '무단변속기' },
+  dct: { ru: 'Робот', en: 'DCT', uz: 'Robot', kz: 'Робот', ko: 'DCT' },
+}
+
+// Other spellings seen in requests, dealer sheets and Korean listings; the labels and codes are matched too
+const FUEL_TYPE_ALIASES: Record<string, FuelType> = {
+  petrol: 'gasoline',
+  gas: 'gasoline',
+  가솔린: 'gasoline',
+  disil: 'diesel',
+  경유: 'diesel',
+  гибрид: 'hybrid',
+  hev: 'hybrid',
+  가솔린하이브리드: 'hybrid',
+  'гибрид+электро': 'hybrid',
+  '가솔린+전기': 'hybrid',
+  pluginhybrid: 'plug_in_hybrid',
+  phev: 'plug_in_hybrid',
+  플러그인: 'plug_in_hybrid',
+  ev: 'electric',
+  electrical: 'electric',
+  электро: 'electric',
+  электрический: 'electric',
+  전기차: 'electric',
+  lpi: 'lpg',
+  autogas: 'lpg',
+  газ: 'lpg',
+  пропан: 'lpg',
+  엘피지: 'lpg',
+  fcev: 'hydrogen',
+  수소차: 'hydrogen',
+}
+
+const TRANSMISSION_ALIASES: Record<string, Transmission> = {
+  auto: 'automatic',
+  at: 'automatic',
+  авто: 'automatic',
+  오토: 'automatic',
+  mechanic: 'manual',
+  mechanical: 'manual',
+  mt: 'manual',
+  механика: 'manual',
+  variator: 'cvt',
+  robot: 'dct',
+  robotic: 'dct',
+  робот: 'dct',
+}
+
+// Case, spaces, dashes and underscores are ignored, so "Plug-in Hybrid" and plug_in_hybrid match
+const normalizeTerm = (value: string) => value.trim().toLowerCase().replace(/[\s_-]/g, '')
+
+function buildLookup<T extends string>(codes: readonly T[], labels: Record<T, LocalizedLabel>, aliases: Record<string, T>) {
+  const lookup = new Map<string, T>()
+  for (const code of codes) {
+    lookup.set(normalizeTerm(code), code)
+    for (const label of Object.values<string>(labels[code])) lookup.set(normalizeTerm(label), code)
+  }
+  for (const [alias, code] of Object.entries(aliases)) lookup.set(normalizeTerm(alias), code)
+  return lookup
+}
+
+const FUEL_TYPE_LOOKUP = buildLookup(FUEL_TYPES, FUEL_TYPE_LABELS, FUEL_TYPE_ALIASES)
+const TRANSMISSION_LOOKUP = buildLookup(TRANSMISSIONS, TRANSMISSION_LABELS, TRANSMISSION_ALIASES)
+
+/**
+ * Fuel type code for a code, label or known alias in any supported language
+ * @param value - Text as entered, e.g. "Gasoline", "휘발유", "PHEV"
+ * @returns FuelType, or null when the text is not recognized
+ */
+export function normalizeFuelType(value: string): FuelType | null {
+  return FUEL_TYPE_LOOKUP.get(normalizeTerm(value)) ?? null
+}
+
+/**
+ * Transmission code for a code, label or known alias in any supported language
+ * @param value - Text as entered, e.g. "Automatic", "механика"
+ * @returns Transmission, or null when the text is not recognized
+ */
+export function normalizeTransmission(value: string): Transmission | null {
+  return TRANSMISSION_LOOKUP.get(normalizeTerm(value)) ?? null
+}
+
+// Unrecognized text is passed through so the enum check reports it as entered
+export const FuelTypeSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? normalizeFuelType(value) ?? value : value),
+  z.enum(FUEL_TYPES)
+)
+
+export const TransmissionSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? normalizeTransmission(value) ?? value : value),
+  z.enum(TRANSMISSIONS)
+)
+
+const labelFor = <T extends string>(labels: Record<T, LocalizedLabel>, lookup: Map<string, T>, value: string, language: string) => {
+  const code = lookup.get(normalizeTerm(value))
+  if (!code) return value
+  return labels[code][language as VocabularyLanguage] ?? labels[code].en
+}
+
+/**
+ * Display label of a stored fuel type; text that is not a known fuel type is returned as is
+ * @param value - Stored fuel type
+ * @param language - Label language, English when not supported
+ */
+export function fuelTypeLabel(value: string, language: string = 'en'): string {
+  return labelFor(FUEL_TYPE_LABELS, FUEL_TYPE_LOOKUP, value, language)
+}
+
+/**
+ * Display label of a stored transmission; text that is not a known transmission is returned as is
+ * @param value - Stored transmission
+ * @param language - Label language, English when not supported
+ */
+export function transmissionLabel(value: string, language: string = 'en'): string {
+  return labelFor(TRANSMISSION_LABELS, TRANSMISSION_LOOKUP, value, language)
+}
@@ -0,0 +1,253 @@
+// Offline VIN checks (ISO 3779) and decoding from a local WMI table.
+// Only the manufacturer, assembly country and model year are decoded; model names need the maker's own data.
+
+export interface VinDecoding {
+  vin: string
+  valid: boolean
+  errors: string[]
+  // Position 9; only North American VINs are required to carry one
+  checkDigit: { applies: boolean; expected: string | null; valid: boolean | null }
+  wmi: string | null
+  manufacturer: string | null
+  country: string | null
+  // Position 10; only decoded where a model year code there is mandated (North America, China)
+  modelYear: number | null
+}
+
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+}
+
+const CHECK_DIGIT_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2]
+
+// Position 10; the sequence repeats every 30 years
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789'
+
+// World manufacturer identifiers, most specific first when looked up (3 characters, then 2)
+const WMI_MANUFACTURERS: Record<string, string> = {
+  // Korea
+  KMH: 'Hyundai',
+  KMF: 'Hyundai',
+  KMJ: 'Hyundai',
+  KMT: 'Genesis',
+  KNA: 'Kia',
+  KNC: 'Kia',
+  KND: 'Kia',
+  KNE: 'Kia',
+  KNH: 'Kia',
+  KNM: 'Renault Korea',
+  KPA: 'SsangYong',
+  KPB: 'SsangYong',
+  KPH: 'SsangYong',
+  KPT: 'SsangYong',
+  KL: 'GM Korea',
+  // Japan
+  JT: 'Toyota',
+  JHM: 'Honda',
+  JHL: 'Honda',
+  JN: 'Nissan',
+  JM: 'Mazda',
+  JF: 'Subaru',
+  JA: 'Mitsubishi',
+  JS: 'Suzuki',
+  JL: 'Mitsubishi Fuso',
+  // Germany
+  WBA: 'BMW',
+  WBS: 'BMW M',
+  WBX: 'BMW',
+  WBY: 'BMW i',
+  WDB: 'Mercedes-Benz',
+  WDC: 'Mercedes-Benz',
+  WDD: 'Mercedes-Benz',
+  W1K: 'Mercedes-Benz',
+  W1N: 'Mercedes-Benz',
+  WMW: 'MINI',
+  WP0: 'Porsche',
+  WP1: 'Porsche',
+  WVW: 'Volkswagen',
+  WVG: 'Volkswagen',
+  WV1: 'Volkswagen Commercial',
+  WV2: 'Volkswagen Commercial',
+  WAU: 'Audi',
+  WA1: 'Audi',
+  WF0: 'Ford Germany',
+  W0L: 'Opel',
+  // Europe
+  VF1: 'Renault',
+  VF3: 'Peugeot',
+  VF7: 'Citroen',
+  VSS: 'SEAT',
+  TMB: 'Skoda',
+  YV1: 'Volvo',
+  YV4: 'Volvo',
+  ZFA: 'Fiat',
+  SAL: 'Land Rover',
+  SAJ: 'Jaguar',
+  // North America
+  '1FA': 'Ford',
+  '1FM': 'Ford',
+  '1FT': 'Ford',
+  '1G1': 'Chevrolet',
+  '1GC': 'Chevrolet',
+  '1HG': 'Honda',
+  '1N4': 'Nissan',
+  '2HG': 'Honda',
+  '2T1': 'Toyota',
+  '3VW': 'Volkswagen',
+  '4T1': 'Toyota',
+  '5NP': 'Hyundai',
+  '5NM': 'Hyundai',
+  '5XY': 'Kia',
+  '5YJ': 'Tesla',
+  '7SA': 'Tesla',
+  // China
+  LFV: 'FAW-Volkswagen',
+  LSV: 'SAIC Volkswagen',
+  LRW: 'Tesla',
+  LBV: 'BMW Brilliance',
+}
+
+// First two characters -> country of assembly, as [first, from second, to second, country]
+const WMI_COUNTRIES: [string, string, string, string][] = [
+  ['K', 'L', 'R', 'South Korea'],
+  ['J', 'A', '0', 'Japan'],
+  ['L', 'A', '0', 'China'],
+  ['M', 'A', 'E', 'India'],
+  ['S', 'A', 'M', 'United Kingdom'],
+  ['T', 'M', 'V', 'Czech Republic'],
+  ['V', 'F', 'R', 'France'],
+  ['V', 'S', 'W', 'Spain'],
+  ['W', 'A', '0', 'Germany'],
+  ['X', '3', '0', 'Russia'],
+  ['Y', 'S', 'W', 'Sweden'],
+  ['Z', 'A', 'R', 'Italy'],
+  ['1', 'A', '0', 'United States'],
+  ['4', 'A', '0', 'United States'],
+  ['5', 'A', '0', 'United States'],
+  ['2', 'A', '0', 'Canada'],
+  ['3', 'A', 'W', 'Mexico'],
+  ['9', 'A', 'E', 'Brazil'],
+]
+
+// ISO 3779 orders second characters A-Z, then 1-9, then 0
+const RANGE_ORDER = 'ABCDEFGHJKLMNPRSTUVWXYZ1234567890'
+
+// Spaces and dashes are common when VINs are copied from documents
+export function normalizeVin(value: string): string {
+  return value.replace(/[\s-]/g, '').toUpperCase()
+}
+
+/**
+ * Check digit (position 9) the VIN should carry
+ */
+export function computeCheckDigit(vin: string): string {
+  const sum = vin.split('').reduce((total, char, index) => {
+    const value = /\d/.test(char) ? Number(char) : TRANSLITERATION[char] ?? 0
+    return total + value * CHECK_DIGIT_WEIGHTS[index]
+  }, 0)
+  const remainder = sum % 11
+  return remainder === 10 ? 'X' : String(remainder)
+}
+
+/**
+ * Model year from position 10. The same code is used every 30 years; North American VINs tell the
+ * cycles apart with position 7 (a letter from 2010 on), elsewhere the latest year not in the future is used.
+ */
+export function decodeModelYear(vin: string, now: Date = new Date()): number | null {
+  const index = MODEL_YEAR_CODES.indexOf(vin[9])
+  if (index === -1) return null
+
+  const earliest = 1980 + index
+  if (isNorthAmerican(vin)) {
+    return /[A-Z]/.test(vin[6]) ? earliest + 30 : earliest
+  }
+
+  const latestAllowed = now.getFullYear() + 1
+  let year = earliest
+  while (year + 30 <= latestAllowed) year += 30
+  return year
+}
+
+function isNorthAmerican(vin: string): boolean {
+  return /^[1-5]/.test(vin)
+}
+
+// Elsewhere position 10 is up to the manufacturer and often not a year at all
+function hasMandatedModelYear(vin: string): boolean {
+  return isNorthAmerican(vin) || vin[0] === 'L'
+}
+
+function findCountry(vin: string): string | null {
+  const position = RANGE_ORDER.indexOf(vin[1])
+  const entry = WMI_COUNTRIES.find(([first, from, to]) =>
+    vin[0] === first && position >= RANGE_ORDER.indexOf(from) && position <= RANGE_ORDER.indexOf(to)
+  )
+  return entry?.[3] ?? null
+}
+
+/**
+ * Validate a VIN and decode what the local tables know about it
+ * @param value - VIN as entered; spaces and dashes are ignored
+ * @returns VinDecoding
+ */
+export function decodeVin(value: string): VinDecoding {
+  const vin = normalizeVin(value)
+  const errors: string[] = []
+
+  if (vin.length !== 17) {
+    errors.push(`VIN must be 17 characters, got ${vin.length}`)
+  }
+  if (/[IOQ]/.test(vin)) {
+    errors.push('VIN cannot contain the letters I, O or Q')
+  }
+  if (!/^[A-Z0-9]*$/.test(vin)) {
+    errors.push('VIN can only contain letters and digits')
+  }
+
+  const structured = VIN_PATTERN.test(vin)
+  const applies = structured && isNorthAmerican(vin)
+  const expected = applies ? computeCheckDigit(vin) : null
+  const checkDigitValid = applies ? vin[8] === expected : null
+  if (checkDigitValid === false) {
+    errors.push(`VIN check digit is ${vin[8]}, expected ${expected}`)
+  }
+
+  const wmi = vin.length >= 3 ? vin.slice(0, 3) : null
+
+  return {
+    vin,
+    valid: errors.length === 0,
+    errors,
+    checkDigit: { applies, expected, valid: checkDigitValid },
+    wmi,
+    manufacturer: wmi ? WMI_MANUFACTURERS[wmi] ?? WMI_MANUFACTURERS[wmi.slice(0, 2)] ?? null : null,
+    country: structured ? findCountry(vin) : null,
+    modelYear: structured && hasMandatedModelYear(vin) ? decodeModelYear(vin) : null,
+  }
+}
+
+/**
+ * Differences between a decoded VIN and what was entered for the car.
+ * Model year may run one year ahead of the manufacture year, so only larger gaps are reported.
+ */
+export function crossCheckVin(decoding: VinDecoding, entered: { carModel?: string; manufactureYear?: number | null }): string[] {
+  const warnings: string[] = []
+
+  const manufacturer = decoding.manufacturer?.split(' ')[0]
+  if (manufacturer && entered.carModel && !entered.carModel.toLowerCase().includes(manufacturer.toLowerCase())) {
+    warnings.push(`VIN belongs to ${decoding.manufacturer}, but the model is "${entered.carModel}"`)
+  }
+
+  if (decoding.modelYear && entered.manufactureYear) {
+    const gap = decoding.modelYear - entered.manufactureYear
+    if (gap < 0 || gap > 1) {
+      warnings.push(`VIN model year is ${decoding.modelYear}, but the manufacture year is ${entered.manufactureYear}`)
+    }
+  }
+
+  return warnings
+}
@@ -1,37 +1,81 @@
 import { Request, Response, NextFunction } from 'express'
 import { verifyAccess } from '../lib/jwt'
+import { getUserAuthState, UserAuthState } from '../lib/user-auth-state'
 import { Role } from '@prisma/client'
 
 export interface AuthRequest extends Request {
   user?: any
 }
 
-export function requireAuth(req: AuthRequest, res: Response, next: NextFunction) {
+export async function requireAuth(req: AuthRequest, res: Response, next: NextFunction) {
   const header = req.headers.authorization
   if (!header || !header.startsWith('Bearer ')) return res.status(401).json({ success: false, error: 'Unauthorized' })
   const token = header.slice(7)
+  let decoded: any
   try {
-    const decoded = verifyAccess(token)
-    // Map JWT fields to expected user structure
-    req.user = {
-      id: decoded.sub, // JWT 'sub' field contains the user ID
-      role: decoded.role,
-      email: decoded.email
-    }
-    next()
+    decoded = verifyAccess(token)
   } catch {
     return res.status(401).json({ success: false, error: 'Unauthorized' })
   }
+
+  // The token's claims may be stale: the user can since have been demoted, deactivated or deleted
+  let state: UserAuthState | null
+  try {
+    state = await getUserAuthState(decoded.sub)
+  } catch (error) {
+    console.error('Auth state lookup error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to authenticate' })
+  }
+  if (!state || !state.isActive || decoded.ver !== state.tokenVersion) {
+    return res.status(401).json({ success: false, error: 'Unauthorized' })
+  }
+
+  // Map JWT fields to expected user structure, taking the role from the database
+  req.user = {
+    id: state.id, // JWT 'sub' field contains the user ID
+    role: state.role,
+    email: state.email,
+    sessionId: decoded.sid // Absent from tokens issued before sessions were recorded
+  }
+  next()
 }
 
 export function requireRole(...roles: Role[]) {
   return function (req: AuthRequest, res: Response, next: NextFunction) {
     if (!req.user) return res.status(401).json({ success: false, error: 'Unauthorized' })
-    // Convert user role to Role enum for comparison
+    // requireAuth has already replaced the token's role with the current one
     const userRole = req.user.role as Role
     if (!roles.includes(userRole)) return res.status(403).json({ success: false, error: 'Forbidden' })
     next()
   }
 }
 
+/**
+ * Allow SUPER_ADMIN, or the author of the record named by the :id route parameter
+ * @param findRecord - Looks up the record's author; resolves to null when there is no such record
+ * @param notFoundError - Error message for a missing record
+ */
+export function requireAuthorOrAdmin(
+  findRecord: (id: string) => Promise<{ authorId: string | null } | null>,
+  notFoundError: string
+) {
+  return async function (req: AuthRequest, res: Response, next: NextFunction) {
+    if (req.user?.role === Role.SUPER_ADMIN) {
+      return next()
+    }
 
+    try {
+      const record = await findRecord(req.params.id)
+      if (!record) {
+        return res.status(404).json({ success: false, error: notFoundError })
+      }
+      if (record.authorId !== req.user?.id) {
+        return res.status(403).json({ success: false, error: 'Forbidden' })
+      }
+      next()
+    } catch (error) {
+      console.error('requireAuthorOrAdmin error:', error)
+      return res.status(500).json({ success: false, error: 'Internal server error' })
+    }
+  }
+}
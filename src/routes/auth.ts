@@ -1,136 +1,399 @@
-import { Router } from 'express'
+import { Router, Request, Response, NextFunction } from 'express'
+import { User } from '@prisma/client'
 import { z } from 'zod'
+import rateLimit from 'express-rate-limit'
+import { env } from '../config/env'
 import { verifyGoogleIdToken } from '../lib/google'
-import { Role } from '@prisma/client'
 import { prisma } from '../lib/prisma'
-import { signAccess, verifyAccess } from '../lib/jwt'
-import crypto from 'crypto'
+import { requireAuth, AuthRequest } from '../middleware/auth'
+import { startSession, rotateRefreshToken, revokeSession, revokeUserSessions, endSessionByRefreshToken, clientInfo, RefreshTokenError } from '../lib/sessions'
+import { authenticateWithPassword, sendMagicLink, consumeMagicLink, changePassword, LocalAuthError } from '../lib/local-auth'
+import { MIN_PASSWORD_LENGTH, MAX_PASSWORD_LENGTH } from '../lib/passwords'
+import { PUBLIC_USER_SELECT, toPublicUser } from '../lib/user-fields'
+import { admitUser, SignInNotAllowedError } from '../lib/onboarding'
+import {
+  beginEnrollment,
+  completeChallenge,
+  createChallenge,
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  loadChallenge,
+  regenerateRecoveryCodes,
+  verifyChallenge,
+  TwoFactorError,
+} from '../lib/two-factor'
 
 export const authRouter = Router()
 
 const GoogleBody = z.object({ idToken: z.string().min(10) })
 const RefreshBody = z.object({ refreshToken: z.string().min(10) })
+const PasswordSchema = z.string().min(MIN_PASSWORD_LENGTH).max(MAX_PASSWORD_LENGTH)
+const LoginBody = z.object({ email: z.string().trim().email(), password: z.string().min(1).max(MAX_PASSWORD_LENGTH) })
+const MagicLinkBody = z.object({ email: z.string().trim().email() })
+const MagicLinkVerifyBody = z.object({ token: z.string().min(10) })
+const ChangePasswordBody = z.object({ currentPassword: z.string().max(MAX_PASSWORD_LENGTH).optional(), newPassword: PasswordSchema })
+const TwoFactorCodeBody = z.object({ code: z.string().trim().min(6).max(10) })
+const TwoFactorVerifyBody = z.object({
+  challengeToken: z.string().min(10),
+  code: z.string().trim().min(6).max(10).optional(),
+  recoveryCode: z.string().trim().min(10).max(20).optional(),
+}).refine((body) => Boolean(body.code) !== Boolean(body.recoveryCode), { message: 'Send either code or recoveryCode' })
 
-const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000
-const ACCESS_EXPIRES_IN_SECONDS = 48 * 60 * 60
+// Password guessing and mail flooding are limited per IP, on top of the per-account lockout
+const credentialLimiter = rateLimit({
+  windowMs: 15 * 60_000,
+  max: 10,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: { success: false, error: 'Too many attempts; try again later' },
+})
+
+// Email/password and magic-link sign-in are only offered when LOCAL_AUTH_ENABLED=true
+function requireLocalAuth(req: Request, res: Response, next: NextFunction) {
+  if (!env.LOCAL_AUTH_ENABLED) return res.status(404).json({ success: false, error: 'Not found' })
+  next()
+}
+
+/**
+ * Finish a sign-in after the first factor: tokens straight away, or a challenge when the user
+ * has 2FA (twoFactorRequired) or their role needs it and it is not set up yet (twoFactorSetupRequired)
+ */
+async function completeFirstFactor(user: User, req: Request) {
+  const enabled = isTwoFactorEnabled(user)
+  if (enabled || isTwoFactorRequired(user)) {
+    return {
+      twoFactorRequired: enabled,
+      twoFactorSetupRequired: !enabled,
+      ...(await createChallenge(user.id)),
+    }
+  }
+
+  // Each sign-in is a new session; the user's other devices stay signed in
+  const tokens = await startSession(user, clientInfo(req))
+  return {
+    user: toPublicUser(user),
+    ...tokens,
+  }
+}
+
+// Two-factor setup works with an access token or, when the role forces setup at sign-in, with the challenge token
+async function requireAuthOrChallenge(req: AuthRequest, res: Response, next: NextFunction) {
+  const challengeToken = req.body?.challengeToken
+  if (typeof challengeToken !== 'string') return requireAuth(req, res, next)
+
+  try {
+    const challenge = await loadChallenge(challengeToken)
+    req.user = { id: challenge.User.id, role: challenge.User.role, email: challenge.User.email, challengeId: challenge.id }
+    next()
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return res.status(error.status).json({ success: false, error: error.message })
+    }
+    console.error('Load two-factor challenge error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to authenticate' })
+  }
+}
+
+const sendTwoFactorError = (res: Response, error: unknown, action: string) => {
+  if (error instanceof TwoFactorError) {
+    return res.status(error.status).json({ success: false, error: error.message })
+  }
+  console.error(`Two-factor ${action} error:`, error)
+  return res.status(500).json({ success: false, error: `Failed to ${action} two-factor authentication` })
+}
 
 authRouter.post('/google', async (req, res) => {
   const parsed = GoogleBody.safeParse(req.body)
   if (!parsed.success) return res.status(400).json({ success: false, error: 'Invalid body' })
 
   const { idToken } = parsed.data
-  const payload = await verifyGoogleIdToken(idToken)
-
-  const email = payload.email!
-  const googleId = payload.sub!
-  const name = payload.name ?? null
-  const image = payload.picture ?? null
-
-  const count = await prisma.user.count()
-  const role = count === 0 ? Role.SUPER_ADMIN : Role.USER
-
-  const user = await prisma.user.upsert({
-    where: { email },
-    create: { 
-      id: crypto.randomUUID(), 
-      email, 
-      googleId, 
-      name, 
-      image, 
-      role,
-      updatedAt: new Date(),
-    },
-    update: { googleId, name, image, updatedAt: new Date() },
-  })
-
-  await prisma.refreshToken.deleteMany({ where: { userId: user.id } })
-
-  const rawRefreshToken = crypto.randomBytes(32).toString('hex')
-  const hashedRefreshToken = crypto.createHash('sha256').update(rawRefreshToken).digest('hex')
-
-  await prisma.refreshToken.create({
-    data: {
-      id: crypto.randomUUID(),
-      userId: user.id,
-      hashedToken: hashedRefreshToken,
-      expiresAt: new Date(Date.now() + THIRTY_DAYS_MS),
-    },
-  })
-
-  const accessToken = signAccess({ sub: user.id, role: user.role, email: user.email })
-
-  return res.json({
-    success: true,
-    data: {
-      user,
-      accessToken,
-      refreshToken: rawRefreshToken,
-      expiresIn: ACCESS_EXPIRES_IN_SECONDS,
-    },
-  })
+  let payload
+  try {
+    payload = await verifyGoogleIdToken(idToken)
+  } catch {
+    return res.status(401).json({ success: false, error: 'Invalid Google token' })
+  }
+
+  if (!payload.email || !payload.email_verified) {
+    return res.status(403).json({ success: false, error: 'Google account has no verified email' })
+  }
+
+  // New addresses need an invitation or an allow-listed domain; nobody becomes SUPER_ADMIN by signing in
+  let user
+  try {
+    user = await admitUser(
+      payload.email,
+      { googleId: payload.sub, name: payload.name ?? null, image: payload.picture ?? null },
+      { allowDomain: true }
+    )
+  } catch (error) {
+    if (error instanceof SignInNotAllowedError) {
+      return res.status(403).json({ success: false, error: error.message })
+    }
+    console.error('Google sign-in error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to sign in' })
+  }
+  if (!user.isActive) {
+    return res.status(403).json({ success: false, error: 'Account is deactivated' })
+  }
+
+  try {
+    return res.json({ success: true, data: await completeFirstFactor(user, req) })
+  } catch (error) {
+    console.error('Google sign-in error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to sign in' })
+  }
 })
 
-authRouter.post('/refresh', async (req, res) => {
-  const parsed = RefreshBody.safeParse(req.body)
+// POST /api/v1/auth/login - Sign in with email and password; answers like /auth/google
+authRouter.post('/login', requireLocalAuth, credentialLimiter, async (req, res) => {
+  const parsed = LoginBody.safeParse(req.body)
   if (!parsed.success) return res.status(400).json({ success: false, error: 'Invalid body' })
 
-  const { refreshToken } = parsed.data
-  const hashedToken = crypto.createHash('sha256').update(refreshToken).digest('hex')
+  try {
+    const user = await authenticateWithPassword(parsed.data.email, parsed.data.password)
+    return res.json({ success: true, data: await completeFirstFactor(user, req) })
+  } catch (error) {
+    if (error instanceof LocalAuthError) {
+      return res.status(error.status).json({ success: false, error: error.message })
+    }
+    console.error('Password login error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to sign in' })
+  }
+})
+
+// POST /api/v1/auth/magic-link - Email a sign-in link; answers the same whether or not the account exists
+authRouter.post('/magic-link', requireLocalAuth, credentialLimiter, async (req, res) => {
+  const parsed = MagicLinkBody.safeParse(req.body)
+  if (!parsed.success) return res.status(400).json({ success: false, error: 'Invalid body' })
+
+  try {
+    await sendMagicLink(parsed.data.email)
+    return res.json({ success: true })
+  } catch (error) {
+    console.error('Send magic link error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to send sign-in link' })
+  }
+})
 
-  const storedToken = await prisma.refreshToken.findFirst({
-    where: { hashedToken, revokedAt: null },
-  })
+// POST /api/v1/auth/magic-link/verify - Exchange the token from a sign-in link for a session
+authRouter.post('/magic-link/verify', requireLocalAuth, credentialLimiter, async (req, res) => {
+  const parsed = MagicLinkVerifyBody.safeParse(req.body)
+  if (!parsed.success) return res.status(400).json({ success: false, error: 'Invalid body' })
 
-  if (!storedToken || storedToken.expiresAt <= new Date()) {
-    return res.status(401).json({ success: false, error: 'Invalid refresh token' })
+  try {
+    const user = await consumeMagicLink(parsed.data.token)
+    return res.json({ success: true, data: await completeFirstFactor(user, req) })
+  } catch (error) {
+    if (error instanceof LocalAuthError) {
+      return res.status(error.status).json({ success: false, error: error.message })
+    }
+    console.error('Magic link sign-in error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to sign in' })
   }
+})
 
-  const user = await prisma.user.findUnique({ where: { id: storedToken.userId } })
-  if (!user) return res.status(401).json({ success: false, error: 'Invalid refresh token' })
+// PUT /api/v1/auth/password - Set or change the signed-in user's password. Other sessions are signed out
+// and the access token stops working; this session carries on after renewing it with its refresh token.
+authRouter.put('/password', requireLocalAuth, requireAuth, credentialLimiter, async (req: AuthRequest, res) => {
+  const parsed = ChangePasswordBody.safeParse(req.body)
+  if (!parsed.success) return res.status(400).json({ success: false, error: parsed.error.errors })
 
-  const accessToken = signAccess({ sub: user.id, role: user.role, email: user.email })
+  try {
+    await changePassword(req.user.id, req.user.sessionId, parsed.data.newPassword, parsed.data.currentPassword)
+    return res.json({ success: true })
+  } catch (error) {
+    if (error instanceof LocalAuthError) {
+      return res.status(error.status).json({ success: false, error: error.message })
+    }
+    console.error('Change password error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to change password' })
+  }
+})
+
+authRouter.post('/refresh', async (req, res) => {
+  const parsed = RefreshBody.safeParse(req.body)
+  if (!parsed.success) return res.status(400).json({ success: false, error: 'Invalid body' })
 
-  return res.json({
-    success: true,
-    data: {
-      accessToken,
-      refreshToken,
-      expiresIn: ACCESS_EXPIRES_IN_SECONDS,
-      user,
-    },
-  })
+  // The refresh token is single-use: the response carries its replacement
+  try {
+    const { user, tokens } = await rotateRefreshToken(parsed.data.refreshToken, clientInfo(req))
+    // Sessions from before the role required 2FA end here; signing in again leads to setup
+    if (isTwoFactorRequired(user) && !isTwoFactorEnabled(user)) {
+      await revokeSession(tokens.sessionId)
+      return res.status(401).json({ success: false, error: 'Two-factor authentication must be set up; sign in again' })
+    }
+    return res.json({
+      success: true,
+      data: {
+        ...tokens,
+        user: toPublicUser(user),
+      },
+    })
+  } catch (error) {
+    if (error instanceof RefreshTokenError) {
+      return res.status(401).json({ success: false, error: error.message })
+    }
+    console.error('Refresh token error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to refresh session' })
+  }
 })
 
 authRouter.post('/logout', async (req, res) => {
   const parsed = RefreshBody.safeParse(req.body ?? {})
   if (!parsed.success) return res.json({ success: true })
 
-  const { refreshToken } = parsed.data
-  const hashedToken = crypto.createHash('sha256').update(refreshToken).digest('hex')
+  try {
+    await endSessionByRefreshToken(parsed.data.refreshToken)
+    return res.json({ success: true })
+  } catch (error) {
+    console.error('Logout error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to sign out' })
+  }
+})
 
-  await prisma.refreshToken.updateMany({
-    where: { hashedToken, revokedAt: null },
-    data: { revokedAt: new Date() },
-  })
+authRouter.get('/me', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user.id }, select: PUBLIC_USER_SELECT })
+    if (!user) return res.status(401).json({ success: false, error: 'Unauthorized' })
 
-  return res.json({ success: true })
+    return res.json({ success: true, data: user })
+  } catch (error) {
+    console.error('Get current user error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to fetch user' })
+  }
 })
 
-authRouter.get('/me', async (req, res) => {
-  const authHeader = req.headers.authorization
-  if (!authHeader?.startsWith('Bearer ')) {
-    return res.status(401).json({ success: false, error: 'Unauthorized' })
+// POST /api/v1/auth/2fa/verify - Second sign-in step: exchange the challenge and a code for tokens
+authRouter.post('/2fa/verify', credentialLimiter, async (req, res) => {
+  const parsed = TwoFactorVerifyBody.safeParse(req.body)
+  if (!parsed.success) return res.status(400).json({ success: false, error: parsed.error.errors })
+
+  try {
+    const user = await verifyChallenge(parsed.data.challengeToken, parsed.data)
+    const tokens = await startSession(user, clientInfo(req))
+    return res.json({
+      success: true,
+      data: {
+        user: toPublicUser(user),
+        ...tokens,
+      },
+    })
+  } catch (error) {
+    return sendTwoFactorError(res, error, 'verify')
   }
+})
 
-  const token = authHeader.split(' ')[1]
+// GET /api/v1/auth/2fa - Whether the signed-in user has 2FA, needs it, and how many recovery codes are left
+authRouter.get('/2fa', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: req.user.id } })
+    return res.json({ success: true, data: await getTwoFactorStatus(user) })
+  } catch (error) {
+    return sendTwoFactorError(res, error, 'load')
+  }
+})
 
+// POST /api/v1/auth/2fa/setup - New secret for the authenticator app; otpauthUrl is meant for a QR code
+authRouter.post('/2fa/setup', requireAuthOrChallenge, async (req: AuthRequest, res) => {
   try {
-    const payload: any = verifyAccess(token)
-    const user = await prisma.user.findUnique({ where: { id: payload.sub } })
-    if (!user) return res.status(401).json({ success: false, error: 'Unauthorized' })
+    return res.json({ success: true, data: await beginEnrollment(req.user.id) })
+  } catch (error) {
+    return sendTwoFactorError(res, error, 'set up')
+  }
+})
 
-    return res.json({ success: true, data: user })
+// POST /api/v1/auth/2fa/enable - Confirm setup with a code; returns recovery codes, and tokens when signing in with a challenge
+authRouter.post('/2fa/enable', requireAuthOrChallenge, async (req: AuthRequest, res) => {
+  const parsed = TwoFactorCodeBody.safeParse(req.body)
+  if (!parsed.success) return res.status(400).json({ success: false, error: parsed.error.errors })
+
+  try {
+    const recoveryCodes = await enableTwoFactor(req.user.id, parsed.data.code)
+
+    if (req.user.challengeId) {
+      await completeChallenge(req.user.challengeId)
+      const user = await prisma.user.findUniqueOrThrow({ where: { id: req.user.id } })
+      const tokens = await startSession(user, clientInfo(req))
+      return res.json({ success: true, data: { recoveryCodes, user: toPublicUser(user), ...tokens } })
+    }
+
+    // Sessions opened with the first factor alone are ended
+    await revokeUserSessions(req.user.id, req.user.sessionId)
+    return res.json({ success: true, data: { recoveryCodes } })
+  } catch (error) {
+    return sendTwoFactorError(res, error, 'enable')
+  }
+})
+
+// POST /api/v1/auth/2fa/recovery-codes - Replace the recovery codes; needs a current code
+authRouter.post('/2fa/recovery-codes', requireAuth, async (req: AuthRequest, res) => {
+  const parsed = TwoFactorCodeBody.safeParse(req.body)
+  if (!parsed.success) return res.status(400).json({ success: false, error: parsed.error.errors })
+
+  try {
+    return res.json({ success: true, data: { recoveryCodes: await regenerateRecoveryCodes(req.user.id, parsed.data.code) } })
+  } catch (error) {
+    return sendTwoFactorError(res, error, 'update')
+  }
+})
+
+// POST /api/v1/auth/2fa/disable - Turn 2FA off; refused for roles that require it
+authRouter.post('/2fa/disable', requireAuth, async (req: AuthRequest, res) => {
+  const parsed = TwoFactorCodeBody.safeParse(req.body)
+  if (!parsed.success) return res.status(400).json({ success: false, error: parsed.error.errors })
+
+  try {
+    await disableTwoFactor(req.user.id, parsed.data.code)
+    return res.json({ success: true })
+  } catch (error) {
+    return sendTwoFactorError(res, error, 'disable')
+  }
+})
+
+// GET /api/v1/auth/sessions - List the signed-in user's active sessions, one per device
+authRouter.get('/sessions', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const sessions = await prisma.session.findMany({
+      where: { userId: req.user.id, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+      },
+    })
+
+    return res.json({
+      success: true,
+      data: sessions.map((session) => ({ ...session, current: session.id === req.user.sessionId })),
+    })
+  } catch (error) {
+    console.error('List sessions error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to list sessions' })
+  }
+})
+
+// DELETE /api/v1/auth/sessions/:id - Sign a device out; its access token stays valid until it expires
+authRouter.delete('/sessions/:id', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const session = await prisma.session.findFirst({
+      where: { id: req.params.id, userId: req.user.id },
+      select: { id: true },
+    })
+    if (!session || !(await revokeSession(session.id))) {
+      return res.status(404).json({ success: false, error: 'Session not found' })
+    }
+
+    return res.json({ success: true })
   } catch (error) {
-    return res.status(401).json({ success: false, error: 'Unauthorized' })
+    console.error('Revoke session error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to revoke session' })
   }
 })
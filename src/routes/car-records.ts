@@ -1,44 +1,61 @@
-import { Router } from 'express'
+import { Router, Response } from 'express'
 import { z } from 'zod'
 import { requireAuth, requireRole, AuthRequest } from '../middleware/auth'
 import { prisma } from '../lib/prisma'
+import {
+  CreateCarRecordSchema,
+  UpdateCarRecordSchema,
+  CarRecordInputError,
+  prepareCarRecordCreate,
+  toCarRecordColumns,
+  settledConversionIssueFields,
+} from '../lib/car-record-fields'
+import { decodeVin } from '../lib/vin'
+import {
+  planCarRecordImport,
+  CarRecordImportMappingSchema,
+  CarRecordImportError,
+  CarRecordImportPlan,
+} from '../lib/car-record-import'
+import { readSpreadsheet, SpreadsheetError } from '../lib/spreadsheet'
+import { CarRecordListQuerySchema, CarRecordFilterSchema, buildCarRecordWhere, buildUnconvertedWhere, buildCarRecordOrderBy } from '../lib/car-record-query'
+import { ExportColumn, ExportFormatSchema, exportFileName, fetchInBatches, sendSpreadsheet } from '../lib/spreadsheet-export'
+import { fuelTypeLabel } from '../lib/vehicle-vocabulary'
 import { Prisma, Role } from '@prisma/client'
 import crypto from 'crypto'
+import multer from 'multer'
 
 export const carRecordsRouter = Router()
 
-// Helper functions to sanitize data - extract only numbers
-function sanitizeWeight(weight: string): string {
-  // Extract only numbers and decimal point, remove all other characters (kg, spaces, etc.)
-  return weight.replace(/[^\d.]/g, '').trim()
-}
-
-function sanitizeManufactureDate(date: string): string {
-  // Extract only numbers, remove all text characters (년, 월, -, spaces, etc.)
-  // Then take only the first 4 digits (year) and remove month/day
-  const numbersOnly = date.replace(/[^\d]/g, '').trim()
-  return numbersOnly.substring(0, 4) || numbersOnly // Take only first 4 digits (year)
-}
+// Spreadsheets for import are parsed in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB
+  },
+})
 
-// Validation schemas
-const CreateCarRecordSchema = z.object({
-  vin: z.string().min(1).max(255),
-  car_model: z.string().min(1).max(255),
-  engine_cc: z.string().min(1).max(50),
-  weight: z.string().min(1).max(100),
-  manufacture_date: z.string().min(1).max(50),
-  price: z.string().min(1).max(100),
-  fuel_type: z.enum(['Hybrid', 'Diesel', 'Gasoline']).default('Gasoline'),
+// Multipart fields sent with the import file
+const ImportCarRecordsSchema = z.object({
+  mode: z.enum(['dry-run', 'commit']).default('dry-run'),
+  // JSON object of field -> header, e.g. {"vin":"Chassis No."}; known headers are matched without it
+  mapping: z.string().optional().transform((value, ctx) => {
+    if (!value) return undefined
+    try {
+      return CarRecordImportMappingSchema.parse(JSON.parse(value))
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'mapping must be a JSON object of field to column header' })
+      return z.NEVER
+    }
+  }),
 })
 
-const UpdateCarRecordSchema = z.object({
-  vin: z.string().min(1).max(255).optional(),
-  car_model: z.string().min(1).max(255).optional(),
-  engine_cc: z.string().min(1).max(50).optional(),
-  weight: z.string().min(1).max(100).optional(),
-  manufacture_date: z.string().min(1).max(50).optional(),
-  price: z.string().min(1).max(100).optional(),
-  fuel_type: z.enum(['Hybrid', 'Diesel', 'Gasoline']).optional(),
+// Report returned by both modes; the pending operations stay on the server
+const toImportReport = (plan: CarRecordImportPlan) => ({
+  headers: plan.headers,
+  mapping: plan.mapping,
+  summary: plan.summary,
+  rows: plan.rows,
 })
 
 // Middleware to check if user owns the car record or is SUPER_ADMIN
@@ -104,66 +121,42 @@ carRecordsRouter.get('/latest', requireRole(Role.SUPER_ADMIN, Role.SALES), async
   }
 })
 
-// GET /api/v1/car-records/search?vinLastDigits=xxxx - Search car records by last 4, 5, or 6 digits of VIN
-carRecordsRouter.get('/search', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
+// GET /api/v1/car-records/decode-vin/:vin - Validate and decode a VIN before saving
+carRecordsRouter.get('/decode-vin/:vin', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
   try {
-    const vinLastDigits = req.query.vinLastDigits as string
-    
-    if (!vinLastDigits || vinLastDigits.length < 4 || vinLastDigits.length > 6) {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'vinLastDigits must be between 4 and 6 digits' 
-      })
-    }
+    const decoding = decodeVin(req.params.vin)
 
-    // Search for VINs ending with the provided digits (4, 5, or 6)
-    const carRecords = await prisma.carRecord.findMany({
-      where: {
-        vin: {
-          endsWith: vinLastDigits,
-        },
-      },
-      include: {
-        User: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            image: true,
-          }
-        }
-      },
-      orderBy: { createdAt: 'desc' },
-      take: 10, // Limit to 10 results
+    const existing = await prisma.carRecord.findUnique({
+      where: { vin: decoding.vin },
+      select: { id: true }
     })
 
     return res.json({
       success: true,
       data: {
-        items: carRecords,
-        count: carRecords.length,
+        ...decoding,
+        existingCarRecordId: existing?.id ?? null,
       }
     })
   } catch (error) {
-    console.error('Search car records error:', error)
-    return res.status(500).json({ success: false, error: 'Failed to search car records' })
+    console.error('Decode VIN error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to decode VIN' })
   }
 })
 
-// GET /api/v1/car-records - List all car records
-carRecordsRouter.get('/', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
+/**
+ * Shared by the list and search routes; /search keeps its original { items, count } shape and adds the rest
+ * @param shape - 'search' for /search
+ */
+const listCarRecords = (shape: 'list' | 'search') => async (req: AuthRequest, res: Response) => {
   try {
-    const page = parseInt(req.query.page as string) || 1
-    const limit = parseInt(req.query.limit as string) || 20
-    const authorId = req.query.authorId as string
-    const skip = (page - 1) * limit
-
-    const where: Prisma.CarRecordWhereInput = {}
-    if (authorId) {
-      where.authorId = authorId
-    }
+    const query = CarRecordListQuerySchema.parse(req.query)
+    const { page, limit } = query
+
+    const where = buildCarRecordWhere(query)
+    const unconvertedWhere = buildUnconvertedWhere(query)
 
-    const [carRecords, total] = await Promise.all([
+    const [carRecords, total, unconverted] = await Promise.all([
       prisma.carRecord.findMany({
         where,
         include: {
@@ -176,29 +169,92 @@ carRecordsRouter.get('/', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req:
             }
           }
         },
-        orderBy: { createdAt: 'desc' },
-        skip,
+        orderBy: buildCarRecordOrderBy(query),
+        skip: (page - 1) * limit,
         take: limit,
       }),
-      prisma.carRecord.count({ where })
+      prisma.carRecord.count({ where }),
+      unconvertedWhere ? prisma.carRecord.count({ where: unconvertedWhere }) : 0,
     ])
 
+    const pagination = {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    }
+
     return res.json({
       success: true,
       data: {
         items: carRecords,
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages: Math.ceil(total / limit),
-        }
+        ...(shape === 'search' ? { count: carRecords.length } : {}),
+        pagination,
+        // Records the year or price range could not match because those values were never converted
+        unconverted,
       }
     })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
     console.error('List car records error:', error)
     return res.status(500).json({ success: false, error: 'Failed to fetch car records' })
   }
+}
+
+// GET /api/v1/car-records/search?vin=KMH&model=sonata&yearFrom=2019&hasInvoice=false - Search car records
+carRecordsRouter.get('/search', requireRole(Role.SUPER_ADMIN, Role.SALES), listCarRecords('search'))
+
+// GET /api/v1/car-records - List car records; accepts the same filters as /search
+carRecordsRouter.get('/', requireRole(Role.SUPER_ADMIN, Role.SALES), listCarRecords('list'))
+
+const ExportCarRecordsQuerySchema = CarRecordFilterSchema.extend({
+  format: ExportFormatSchema,
+})
+
+const carRecordExportInclude = {
+  User: { select: { email: true } },
+  _count: { select: { Invoice: true, InvoiceLine: true } },
+} satisfies Prisma.CarRecordInclude
+
+type ExportedCarRecord = Prisma.CarRecordGetPayload<{ include: typeof carRecordExportInclude }>
+
+const decimalOrNull = (value: Prisma.Decimal | null) => (value === null ? null : Number(value))
+
+const CAR_RECORD_EXPORT_COLUMNS: ExportColumn<ExportedCarRecord>[] = [
+  { header: 'VIN', value: (record) => record.vin },
+  { header: 'Model', value: (record) => record.car_model },
+  { header: 'Engine (cc)', value: (record) => record.engineCc ?? record.engine_cc },
+  { header: 'Weight (kg)', value: (record) => decimalOrNull(record.weightKg) ?? record.weight },
+  { header: 'Manufacture year', value: (record) => record.manufactureYear ?? record.manufacture_date },
+  { header: 'Manufacture month', value: (record) => record.manufactureMonth },
+  { header: 'Price', value: (record) => decimalOrNull(record.priceAmount) ?? record.price },
+  { header: 'Price currency', value: (record) => record.priceCurrency },
+  { header: 'Fuel type', value: (record) => fuelTypeLabel(record.fuel_type) },
+  { header: 'Invoiced', value: (record) => record._count.Invoice + record._count.InvoiceLine > 0 },
+  { header: 'Created by', value: (record) => record.User.email },
+  { header: 'Created at', value: (record) => record.createdAt },
+]
+
+// GET /api/v1/car-records/export?format=csv|xlsx - Download car records matching the search filters
+carRecordsRouter.get('/export', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
+  const parsed = ExportCarRecordsQuerySchema.safeParse(req.query)
+  if (!parsed.success) {
+    return res.status(400).json({ success: false, error: parsed.error.errors })
+  }
+  const query = parsed.data
+
+  const where = buildCarRecordWhere(query)
+  const orderBy = buildCarRecordOrderBy(query)
+
+  await sendSpreadsheet(res, {
+    format: query.format,
+    fileName: exportFileName('car-records'),
+    sheetName: 'Car records',
+    columns: CAR_RECORD_EXPORT_COLUMNS,
+    batches: fetchInBatches<ExportedCarRecord>((page) => prisma.carRecord.findMany({ where, orderBy, include: carRecordExportInclude, ...page })),
+  })
 })
 
 // GET /api/v1/car-records/:id - Get single car record
@@ -237,23 +293,15 @@ carRecordsRouter.get('/:id', requireRole(Role.SUPER_ADMIN, Role.SALES), async (r
 // POST /api/v1/car-records - Create car record
 carRecordsRouter.post('/', requireRole(Role.SALES, Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
   try {
-    const { vin, car_model, engine_cc, weight, manufacture_date, price, fuel_type } = CreateCarRecordSchema.parse(req.body)
+    const fields = CreateCarRecordSchema.parse(req.body)
     const authorId = req.user!.id
 
-    // Sanitize weight and manufacture_date to store only numbers
-    const sanitizedWeight = sanitizeWeight(weight)
-    const sanitizedManufactureDate = sanitizeManufactureDate(manufacture_date)
+    const { columns, warnings } = prepareCarRecordCreate(fields)
 
     const carRecord = await prisma.carRecord.create({
       data: {
+        ...columns,
         id: crypto.randomUUID(),
-        vin,
-        car_model,
-        engine_cc,
-        weight: sanitizedWeight,
-        manufacture_date: sanitizedManufactureDate,
-        price,
-        fuel_type: fuel_type || 'Gasoline',
         authorId,
         updatedAt: new Date(),
       },
@@ -271,12 +319,16 @@ carRecordsRouter.post('/', requireRole(Role.SALES, Role.SUPER_ADMIN), async (req
 
     return res.status(201).json({
       success: true,
-      data: carRecord
+      data: carRecord,
+      warnings,
     })
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ success: false, error: error.errors })
     }
+    if (error instanceof CarRecordInputError) {
+      return res.status(400).json({ success: false, error: error.message })
+    }
     if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
       return res.status(409).json({ success: false, error: 'VIN already exists' })
     }
@@ -285,41 +337,125 @@ carRecordsRouter.post('/', requireRole(Role.SALES, Role.SUPER_ADMIN), async (req
   }
 })
 
+// POST /api/v1/car-records/import - Import car records from CSV or XLSX (multipart field "file").
+// mode=dry-run (default) only reports what would happen; mode=commit applies every row in one
+// transaction and is refused while any row has errors.
+carRecordsRouter.post('/import', requireRole(Role.SALES, Role.SUPER_ADMIN), (req, res, next) => {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(400).json({ success: false, error: 'File size too large. Maximum size is 5MB.' })
+    }
+    if (error) return next(error)
+    next()
+  })
+}, async (req: AuthRequest, res) => {
+  try {
+    const { mode, mapping } = ImportCarRecordsSchema.parse(req.body)
+
+    if (!req.file) {
+      return res.status(400).json({ success: false, error: 'No file uploaded' })
+    }
+
+    const plan = await planCarRecordImport(readSpreadsheet(req.file.buffer), {
+      mapping,
+      user: { id: req.user!.id, role: req.user!.role },
+    })
+
+    if (mode === 'dry-run') {
+      return res.json({
+        success: true,
+        data: { mode, ...toImportReport(plan) }
+      })
+    }
+
+    if (plan.summary.error > 0) {
+      return res.status(422).json({
+        success: false,
+        error: `${plan.summary.error} rows have errors; fix them and import again`,
+        data: { mode, ...toImportReport(plan) }
+      })
+    }
+
+    // One batched transaction: new records in a single insert, then each update
+    const authorId = req.user!.id
+    const now = new Date()
+    const creates = plan.operations.flatMap((operation) =>
+      operation.type === 'create' ? [{ row: operation.row, data: { ...operation.data, id: crypto.randomUUID(), authorId, updatedAt: now } }] : []
+    )
+    const updates = plan.operations.flatMap((operation) => (operation.type === 'update' ? [operation] : []))
+
+    await prisma.$transaction([
+      prisma.carRecord.createMany({ data: creates.map((create) => create.data) }),
+      ...updates.flatMap((operation) => [
+        prisma.carRecord.update({
+          where: { id: operation.id },
+          data: { ...operation.data, updatedAt: now },
+          select: { id: true },
+        }),
+        prisma.carRecordConversionIssue.deleteMany({
+          where: { carRecordId: operation.id, field: { in: settledConversionIssueFields(operation.data) } },
+        }),
+      ]),
+    ])
+    const results = creates.map((create) => ({ row: create.row, id: create.data.id }))
+
+    // New records get their id only now
+    const idByRow = new Map(results.map((result) => [result.row, result.id]))
+    const rows = plan.rows.map((row) => ({ ...row, carRecordId: idByRow.get(row.row) ?? row.carRecordId }))
+
+    return res.status(201).json({
+      success: true,
+      data: { mode, ...toImportReport(plan), rows }
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    if (error instanceof SpreadsheetError || error instanceof CarRecordImportError) {
+      return res.status(400).json({ success: false, error: error.message })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return res.status(409).json({ success: false, error: 'A VIN in the file was added by someone else during the import; run it again' })
+    }
+    console.error('Import car records error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to import car records' })
+  }
+})
+
 // PATCH /api/v1/car-records/:id - Update car record
 carRecordsRouter.patch('/:id', requireOwnerOrAdmin, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params
     const parsedData = UpdateCarRecordSchema.parse(req.body)
 
-    // Filter out undefined values before passing to Prisma
-    const updateData: any = {}
-    if (parsedData.vin !== undefined) updateData.vin = parsedData.vin
-    if (parsedData.car_model !== undefined) updateData.car_model = parsedData.car_model
-    if (parsedData.engine_cc !== undefined) updateData.engine_cc = parsedData.engine_cc
-    if (parsedData.weight !== undefined) updateData.weight = sanitizeWeight(parsedData.weight)
-    if (parsedData.manufacture_date !== undefined) updateData.manufacture_date = sanitizeManufactureDate(parsedData.manufacture_date)
-    if (parsedData.price !== undefined) updateData.price = parsedData.price
-    if (parsedData.fuel_type !== undefined) updateData.fuel_type = parsedData.fuel_type
+    // Only the fields that were sent
+    const updateData = toCarRecordColumns(parsedData)
 
     // If no fields to update, return error
     if (Object.keys(updateData).length === 0) {
       return res.status(400).json({ success: false, error: 'No fields to update' })
     }
 
-    const carRecord = await prisma.carRecord.update({
-      where: { id },
-      data: updateData,
-      include: {
-        User: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            image: true,
+    // Values set here also settle what the legacy conversion could not read
+    const [carRecord] = await prisma.$transaction([
+      prisma.carRecord.update({
+        where: { id },
+        data: updateData,
+        include: {
+          User: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              image: true,
+            }
           }
         }
-      }
-    })
+      }),
+      prisma.carRecordConversionIssue.deleteMany({
+        where: { carRecordId: id, field: { in: settledConversionIssueFields(updateData) } },
+      }),
+    ])
 
     return res.json({
       success: true,
@@ -5,6 +5,8 @@ import { requireAuth, requireRole, AuthRequest } from '../middleware/auth'
 import { prisma } from '../lib/prisma'
 import { s3Service } from '../lib/s3'
 import { optimizeImage } from '../lib/image-optimizer'
+import { FuelTypeSchema, TransmissionSchema, VOCABULARY_LANGUAGES, fuelTypeLabel, transmissionLabel } from '../lib/vehicle-vocabulary'
+import { ExportColumn, ExportFormatSchema, exportFileName, fetchInBatches, localizedText, sendSpreadsheet } from '../lib/spreadsheet-export'
 import { Prisma, Role } from '@prisma/client'
 
 export const collectionsRouter = Router()
@@ -25,57 +27,6 @@ const upload = multer({
 })
 
 // Validation schemas
-const fuelTypeEnum = ['gasoline', 'diesel', 'hybrid', 'electric'] as const
-const transmissionEnum = ['automatic', 'manual', 'cvt', 'dct'] as const
-
-const fuelTypeMap: Record<string, (typeof fuelTypeEnum)[number]> = {
-  gasoline: 'gasoline',
-  petrol: 'gasoline',
-  бензин: 'gasoline',
-  дизель: 'diesel',
-  diesel: 'diesel',
-  disil: 'diesel',
-  hybrid: 'hybrid',
-  гибрид: 'hybrid',
-  electric: 'electric',
-  электро: 'electric',
-  electrical: 'electric',
-  ev: 'electric',
-}
-
-const transmissionMap: Record<string, (typeof transmissionEnum)[number]> = {
-  automatic: 'automatic',
-  авто: 'automatic',
-  auto: 'automatic',
-  manual: 'manual',
-  mechanic: 'manual',
-  mechanical: 'manual',
-  механика: 'manual',
-  cvt: 'cvt',
-  variator: 'cvt',
-  вариатор: 'cvt',
-  dct: 'dct',
-  robot: 'dct',
-  robotic: 'dct',
-  робот: 'dct',
-}
-
-const normalizeEnumValue = <T extends string>(map: Record<string, T>, value: unknown): unknown => {
-  if (typeof value !== 'string') return value
-  const normalized = value.trim().toLowerCase()
-  return map[normalized] ?? value
-}
-
-const FuelTypeSchema = z.preprocess(
-  (value) => normalizeEnumValue(fuelTypeMap, value),
-  z.enum(fuelTypeEnum)
-)
-
-const TransmissionSchema = z.preprocess(
-  (value) => normalizeEnumValue(transmissionMap, value),
-  z.enum(transmissionEnum)
-)
-
 const strictLocalizedStringSchema = z.object({
   ru: z.string().min(1),
   en: z.string().optional(),
@@ -435,6 +386,95 @@ collectionsRouter.get('/', requireRole(Role.SUPER_ADMIN, Role.SALES, Role.MARKET
   }
 })
 
+const ExportCollectionsQuerySchema = z.object({
+  authorId: z.string().min(1).optional(),
+  format: ExportFormatSchema,
+  language: z.enum(VOCABULARY_LANGUAGES).default('en'), // Language of the localized text, fuel type and transmission columns
+})
+
+const collectionExportInclude = {
+  User: { select: { email: true } },
+} satisfies Prisma.CollectionInclude
+
+type ExportedCollection = Prisma.CollectionGetPayload<{ include: typeof collectionExportInclude }>
+
+// Older rows keep specs and text at the top level of data, as CollectionDataSchema still accepts
+const collectionDataOf = (collection: ExportedCollection) => {
+  const data = (collection.data ?? {}) as Record<string, any>
+  return {
+    specs: (data.specs ?? data) as Record<string, any>,
+    text: (data.text ?? data) as Record<string, any>,
+    additionalOptions: Array.isArray(data.additionalOptions) ? data.additionalOptions : [],
+    inspectionHistory: (data.inspectionHistory ?? {}) as Record<string, any>,
+    images: Array.isArray(data.images) ? (data.images as string[]) : [],
+  }
+}
+
+const collectionExportColumns = (language: string): ExportColumn<ExportedCollection>[] => {
+  const text = (field: string) => (collection: ExportedCollection) => localizedText(collectionDataOf(collection).text[field], language)
+  const spec = (field: string) => (collection: ExportedCollection) => collectionDataOf(collection).specs[field]
+  // Fuel type and transmission codes are written out as labels in the export language
+  const labelled = (field: string, toLabel: (value: string, language: string) => string) => (collection: ExportedCollection) => {
+    const value = spec(field)(collection)
+    return typeof value === 'string' ? toLabel(value, language) : value
+  }
+
+  return [
+    { header: 'Listing ID', value: (collection) => collection.listingId },
+    { header: 'Make', value: text('make') },
+    { header: 'Model', value: text('model') },
+    { header: 'Trim', value: text('trim') },
+    { header: 'Body type', value: text('bodyType') },
+    { header: 'Color', value: text('color') },
+    { header: 'Interior color', value: text('interiorColor') },
+    { header: 'Year', value: spec('year') },
+    { header: 'Mileage (km)', value: spec('mileageKm') },
+    { header: 'Fuel type', value: labelled('fuelType', fuelTypeLabel) },
+    { header: 'Transmission', value: labelled('transmission', transmissionLabel) },
+    { header: 'Engine (cc)', value: spec('engineDisplacementCc') },
+    { header: 'Price (KRW)', value: spec('priceKRW') },
+    { header: 'Currency', value: spec('currency') },
+    {
+      header: 'Additional options',
+      value: (collection) => collectionDataOf(collection).additionalOptions.map((option) => localizedText(option, language)).filter(Boolean).join('; '),
+    },
+    { header: 'Accidents', value: (collection) => collectionDataOf(collection).inspectionHistory.accidents },
+    { header: 'Maintenance history', value: (collection) => localizedText(collectionDataOf(collection).inspectionHistory.maintenanceHistory, language) },
+    { header: 'Description', value: text('description') },
+    { header: 'Images', value: (collection) => collectionDataOf(collection).images.length },
+    { header: 'Main image', value: (collection) => collectionDataOf(collection).images[0] },
+    { header: 'Created by', value: (collection) => collection.User.email },
+    { header: 'Created at', value: (collection) => collection.createdAt },
+  ]
+}
+
+// GET /api/v1/collections/export?format=csv|xlsx&language=en - Download collections, one row per listing
+collectionsRouter.get('/export', requireRole(Role.SUPER_ADMIN, Role.SALES, Role.MARKETING), async (req: AuthRequest, res) => {
+  const parsed = ExportCollectionsQuerySchema.safeParse(req.query)
+  if (!parsed.success) {
+    return res.status(400).json({ success: false, error: parsed.error.errors })
+  }
+  const { authorId, format, language } = parsed.data
+
+  const where: Prisma.CollectionWhereInput = {}
+  if (authorId) {
+    where.authorId = authorId
+  }
+
+  await sendSpreadsheet(res, {
+    format,
+    fileName: exportFileName('collections'),
+    sheetName: 'Collections',
+    columns: collectionExportColumns(language),
+    batches: fetchInBatches<ExportedCollection>((page) => prisma.collection.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      include: collectionExportInclude,
+      ...page,
+    })),
+  })
+})
+
 // GET /api/v1/collections/:id - Get single collection
 collectionsRouter.get('/:id', requireRole(Role.SUPER_ADMIN, Role.SALES, Role.MARKETING), async (req: AuthRequest, res) => {
   try {
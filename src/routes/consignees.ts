@@ -0,0 +1,231 @@
+import { Router } from 'express'
+import { z } from 'zod'
+import { requireAuth, requireRole, requireAuthorOrAdmin, AuthRequest } from '../middleware/auth'
+import { prisma } from '../lib/prisma'
+import { validateTaxId, normalizeTaxId } from '../lib/tax-id'
+import { findCountry } from '../lib/country'
+import { Prisma, Role } from '@prisma/client'
+import crypto from 'crypto'
+
+export const consigneesRouter = Router()
+
+const userInclude = {
+  User: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      image: true,
+    }
+  }
+} as const
+
+// Validation schemas
+const CreateConsigneeSchema = z.object({
+  country: z.string().min(1),
+  name: z.string().trim().min(1).max(255),
+  address: z.string().trim().min(1),
+  taxId: z.string().trim().min(1), // IIN / INN / TIN depending on the country
+  phone: z.string().trim().default(''),
+})
+
+const UpdateConsigneeSchema = CreateConsigneeSchema.partial()
+
+const ListConsigneesQuerySchema = z.object({
+  country: z.string().min(1).optional(),
+  q: z.string().trim().min(1).optional(), // name (partial) or tax ID (prefix)
+  authorId: z.string().min(1).optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().default(20).transform((value) => Math.min(value, 100)),
+})
+
+// Middleware to check if user owns the consignee or is SUPER_ADMIN
+const requireOwnerOrAdmin = requireAuthorOrAdmin(
+  (id) => prisma.consignee.findUnique({ where: { id }, select: { authorId: true } }),
+  'Consignee not found'
+)
+
+consigneesRouter.use(requireAuth)
+
+// GET /api/v1/consignees - List consignees
+consigneesRouter.get('/', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
+  try {
+    const { country, q, authorId, page, limit } = ListConsigneesQuerySchema.parse(req.query)
+
+    const where: Prisma.ConsigneeWhereInput = {}
+    if (country) where.country = country
+    if (authorId) where.authorId = authorId
+    if (q) {
+      where.OR = [
+        { name: { contains: q, mode: 'insensitive' } },
+        { taxId: { startsWith: normalizeTaxId(q) } },
+      ]
+    }
+
+    const [consignees, total] = await Promise.all([
+      prisma.consignee.findMany({
+        where,
+        include: userInclude,
+        orderBy: { name: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.consignee.count({ where })
+    ])
+
+    return res.json({
+      success: true,
+      data: {
+        items: consignees,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        }
+      }
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    console.error('List consignees error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to fetch consignees' })
+  }
+})
+
+// GET /api/v1/consignees/:id - Get single consignee
+consigneesRouter.get('/:id', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params
+
+    const consignee = await prisma.consignee.findUnique({
+      where: { id },
+      include: userInclude
+    })
+
+    if (!consignee) {
+      return res.status(404).json({ success: false, error: 'Consignee not found' })
+    }
+
+    return res.json({
+      success: true,
+      data: consignee
+    })
+  } catch (error) {
+    console.error('Get consignee error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to fetch consignee' })
+  }
+})
+
+// POST /api/v1/consignees - Create consignee
+consigneesRouter.post('/', requireRole(Role.SALES, Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
+  try {
+    const input = CreateConsigneeSchema.parse(req.body)
+
+    const country = await findCountry(input.country)
+    if (!country) {
+      return res.status(400).json({ success: false, error: `Unknown country: ${input.country}` })
+    }
+
+    const taxIdError = validateTaxId(country, input.taxId)
+    if (taxIdError) {
+      return res.status(400).json({ success: false, error: taxIdError })
+    }
+
+    const consignee = await prisma.consignee.create({
+      data: {
+        id: crypto.randomUUID(),
+        ...input,
+        taxId: normalizeTaxId(input.taxId),
+        authorId: req.user!.id,
+        updatedAt: new Date(),
+      },
+      include: userInclude
+    })
+
+    return res.status(201).json({
+      success: true,
+      data: consignee
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return res.status(409).json({ success: false, error: 'A consignee with this tax ID already exists for this country' })
+    }
+    console.error('Create consignee error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to create consignee' })
+  }
+})
+
+// PATCH /api/v1/consignees/:id - Update consignee; issued invoices keep their own copy
+consigneesRouter.patch('/:id', requireRole(Role.SALES, Role.SUPER_ADMIN), requireOwnerOrAdmin, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params
+    const updateData = UpdateConsigneeSchema.parse(req.body)
+
+    const existing = await prisma.consignee.findUnique({ where: { id } })
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Consignee not found' })
+    }
+
+    // A country change re-checks the stored tax ID against the new country's rules
+    if (updateData.country || updateData.taxId) {
+      const countryName = updateData.country ?? existing.country
+      const country = await findCountry(countryName)
+      if (!country) {
+        return res.status(400).json({ success: false, error: `Unknown country: ${countryName}` })
+      }
+
+      const taxIdError = validateTaxId(country, updateData.taxId ?? existing.taxId)
+      if (taxIdError) {
+        return res.status(400).json({ success: false, error: taxIdError })
+      }
+    }
+
+    const consignee = await prisma.consignee.update({
+      where: { id },
+      data: {
+        ...updateData,
+        ...(updateData.taxId ? { taxId: normalizeTaxId(updateData.taxId) } : {}),
+        updatedAt: new Date(),
+      },
+      include: userInclude
+    })
+
+    return res.json({
+      success: true,
+      data: consignee
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return res.status(409).json({ success: false, error: 'A consignee with this tax ID already exists for this country' })
+    }
+    console.error('Update consignee error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to update consignee' })
+  }
+})
+
+// DELETE /api/v1/consignees/:id - Delete consignee; invoices keep their snapshot
+consigneesRouter.delete('/:id', requireRole(Role.SALES, Role.SUPER_ADMIN), requireOwnerOrAdmin, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params
+
+    await prisma.consignee.delete({
+      where: { id }
+    })
+
+    return res.status(204).end()
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2025') {
+      return res.status(404).json({ success: false, error: 'Consignee not found' })
+    }
+    console.error('Delete consignee error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to delete consignee' })
+  }
+})
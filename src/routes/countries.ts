@@ -0,0 +1,203 @@
+import { Router } from 'express'
+import { z } from 'zod'
+import { requireAuth, requireRole, AuthRequest } from '../middleware/auth'
+import { prisma } from '../lib/prisma'
+import { isValidTaxIdPattern } from '../lib/tax-id'
+import { InvoiceDatePattern, Role, TaxIdAlgorithm } from '@prisma/client'
+
+export const countriesRouter = Router()
+
+const countryInclude = {
+  DefaultPortInfo: {
+    select: {
+      id: true,
+      shortAddress: true,
+    }
+  },
+  DefaultTemplateFamily: {
+    select: {
+      id: true,
+      name: true,
+    }
+  }
+} as const
+
+// Validation schemas
+const CountryCodeSchema = z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, 'Must be an ISO 3166-1 alpha-2 code')
+
+const CountryFieldsSchema = z.object({
+  officialNames: z.record(z.string().trim().min(1)).refine((names) => Boolean(names.en), {
+    message: 'An English official name (en) is required',
+  }), // Language code -> official name, e.g. { en: 'Russian Federation', ru: 'Российская Федерация' }
+  invoicePrefix: z.string().trim().min(1).max(10),
+  invoiceDatePattern: z.nativeEnum(InvoiceDatePattern).optional(),
+  invoiceSeparator: z.string().max(3).optional(),
+  invoicePadding: z.number().int().min(1).max(8).optional(),
+  defaultPortInfoId: z.string().min(1).nullable().optional(),
+  defaultTemplateFamilyId: z.string().min(1).nullable().optional(),
+  taxIdLabel: z.string().trim().min(1).max(50).optional(), // IIN, INN, TIN...
+  taxIdAlgorithm: z.nativeEnum(TaxIdAlgorithm).nullable().optional(), // Checksum used for consignee tax IDs
+  taxIdPattern: z.string().min(1).refine(isValidTaxIdPattern, 'Invalid regular expression').nullable().optional(),
+  isActive: z.boolean().optional(),
+})
+
+const CreateCountrySchema = CountryFieldsSchema.extend({
+  code: CountryCodeSchema,
+  name: z.string().trim().min(1).max(100), // Name stored on invoices and consignees, e.g. Russia
+})
+
+// The code and name are referenced by issued invoices, sequences and consignees, so they cannot change
+const UpdateCountrySchema = CountryFieldsSchema.partial()
+
+const ListCountriesQuerySchema = z.object({
+  includeInactive: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+})
+
+countriesRouter.use(requireAuth)
+
+// GET /api/v1/countries - List countries, active only unless includeInactive=true
+countriesRouter.get('/', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
+  try {
+    const { includeInactive } = ListCountriesQuerySchema.parse(req.query)
+
+    const countries = await prisma.country.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      include: countryInclude,
+      orderBy: { name: 'asc' },
+    })
+
+    return res.json({
+      success: true,
+      data: countries
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    console.error('List countries error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to fetch countries' })
+  }
+})
+
+// GET /api/v1/countries/:code - Get single country
+countriesRouter.get('/:code', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
+  try {
+    const code = req.params.code.toUpperCase()
+
+    const country = await prisma.country.findUnique({
+      where: { code },
+      include: countryInclude
+    })
+
+    if (!country) {
+      return res.status(404).json({ success: false, error: 'Country not found' })
+    }
+
+    return res.json({
+      success: true,
+      data: country
+    })
+  } catch (error) {
+    console.error('Get country error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to fetch country' })
+  }
+})
+
+// POST /api/v1/countries - Open a new destination country
+countriesRouter.post('/', requireRole(Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
+  try {
+    const input = CreateCountrySchema.parse(req.body)
+
+    const country = await prisma.country.create({
+      data: {
+        ...input,
+        updatedAt: new Date(),
+      },
+      include: countryInclude
+    })
+
+    return res.status(201).json({
+      success: true,
+      data: country
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return res.status(409).json({ success: false, error: 'A country with this code or name already exists' })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2003') {
+      return res.status(400).json({ success: false, error: 'Default port or template family not found' })
+    }
+    console.error('Create country error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to create country' })
+  }
+})
+
+// PATCH /api/v1/countries/:code - Update invoicing settings; issued invoices keep their numbers and names
+countriesRouter.patch('/:code', requireRole(Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
+  try {
+    const code = req.params.code.toUpperCase()
+    const updateData = UpdateCountrySchema.parse(req.body)
+
+    const country = await prisma.country.update({
+      where: { code },
+      data: {
+        ...updateData,
+        updatedAt: new Date(),
+      },
+      include: countryInclude
+    })
+
+    return res.json({
+      success: true,
+      data: country
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2025') {
+      return res.status(404).json({ success: false, error: 'Country not found' })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2003') {
+      return res.status(400).json({ success: false, error: 'Default port or template family not found' })
+    }
+    console.error('Update country error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to update country' })
+  }
+})
+
+// DELETE /api/v1/countries/:code - Delete a country nothing refers to yet
+countriesRouter.delete('/:code', requireRole(Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
+  try {
+    const code = req.params.code.toUpperCase()
+
+    const country = await prisma.country.findUnique({ where: { code }, select: { name: true } })
+    if (!country) {
+      return res.status(404).json({ success: false, error: 'Country not found' })
+    }
+
+    const where = { country: country.name }
+    const [invoiceCount, consigneeCount] = await Promise.all([
+      prisma.invoice.count({ where }),
+      prisma.consignee.count({ where }),
+    ])
+    if (invoiceCount > 0 || consigneeCount > 0) {
+      return res.status(409).json({
+        success: false,
+        error: 'Country is used by invoices or consignees; deactivate it instead',
+      })
+    }
+
+    await prisma.country.delete({
+      where: { code }
+    })
+
+    return res.status(204).end()
+  } catch (error) {
+    console.error('Delete country error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to delete country' })
+  }
+})
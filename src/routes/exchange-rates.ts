@@ -0,0 +1,199 @@
+import { Router } from 'express'
+import { z } from 'zod'
+import { requireAuth, requireRole, AuthRequest } from '../middleware/auth'
+import { prisma } from '../lib/prisma'
+import { CurrencyCodeSchema, resolveExchangeRate, ExchangeRateNotFoundError } from '../lib/exchange-rate'
+import { Prisma, Role } from '@prisma/client'
+import crypto from 'crypto'
+
+export const exchangeRatesRouter = Router()
+
+const userSelect = {
+  select: {
+    id: true,
+    name: true,
+    email: true,
+    image: true,
+  }
+} as const
+
+// Validation schemas
+const CreateExchangeRateSchema = z.object({
+  baseCurrency: CurrencyCodeSchema,
+  quoteCurrency: CurrencyCodeSchema,
+  rate: z.number().positive(), // 1 baseCurrency = rate quoteCurrency
+  effectiveDate: z.coerce.date(),
+  note: z.string().trim().max(500).optional(),
+}).refine((value) => value.baseCurrency !== value.quoteCurrency, {
+  message: 'baseCurrency and quoteCurrency must differ',
+  path: ['quoteCurrency'],
+})
+
+const UpdateExchangeRateSchema = z.object({
+  rate: z.number().positive().optional(),
+  effectiveDate: z.coerce.date().optional(),
+  note: z.string().trim().max(500).nullable().optional(),
+})
+
+const ListExchangeRatesQuerySchema = z.object({
+  baseCurrency: CurrencyCodeSchema.optional(),
+  quoteCurrency: CurrencyCodeSchema.optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().default(50).transform((value) => Math.min(value, 200)),
+})
+
+const LookupExchangeRateQuerySchema = z.object({
+  from: CurrencyCodeSchema,
+  to: CurrencyCodeSchema,
+  date: z.coerce.date().optional(),
+})
+
+exchangeRatesRouter.use(requireAuth)
+
+// GET /api/v1/exchange-rates - List rates, newest first
+exchangeRatesRouter.get('/', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
+  try {
+    const { baseCurrency, quoteCurrency, page, limit } = ListExchangeRatesQuerySchema.parse(req.query)
+
+    const where: Prisma.ExchangeRateWhereInput = {}
+    if (baseCurrency) where.baseCurrency = baseCurrency
+    if (quoteCurrency) where.quoteCurrency = quoteCurrency
+
+    const [rates, total] = await Promise.all([
+      prisma.exchangeRate.findMany({
+        where,
+        include: { User: userSelect },
+        orderBy: [{ effectiveDate: 'desc' }, { baseCurrency: 'asc' }, { quoteCurrency: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.exchangeRate.count({ where })
+    ])
+
+    return res.json({
+      success: true,
+      data: {
+        items: rates,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        }
+      }
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    console.error('List exchange rates error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to fetch exchange rates' })
+  }
+})
+
+// GET /api/v1/exchange-rates/lookup?from=KRW&to=USD&date=2026-10-19 - Rate an invoice dated then would use
+exchangeRatesRouter.get('/lookup', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
+  try {
+    const { from, to, date } = LookupExchangeRateQuerySchema.parse(req.query)
+
+    const resolved = await resolveExchangeRate(prisma, from, to, date ?? new Date())
+
+    return res.json({
+      success: true,
+      data: { from, to, ...resolved }
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    if (error instanceof ExchangeRateNotFoundError) {
+      return res.status(404).json({ success: false, error: error.message })
+    }
+    console.error('Lookup exchange rate error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to look up exchange rate' })
+  }
+})
+
+// POST /api/v1/exchange-rates - Add a rate for a currency pair and date
+exchangeRatesRouter.post('/', requireRole(Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
+  try {
+    const input = CreateExchangeRateSchema.parse(req.body)
+
+    const rate = await prisma.exchangeRate.create({
+      data: {
+        id: crypto.randomUUID(),
+        ...input,
+        authorId: req.user!.id,
+        updatedAt: new Date(),
+      },
+      include: { User: userSelect }
+    })
+
+    return res.status(201).json({
+      success: true,
+      data: rate
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return res.status(409).json({ success: false, error: 'A rate for this currency pair and date already exists' })
+    }
+    console.error('Create exchange rate error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to create exchange rate' })
+  }
+})
+
+// PATCH /api/v1/exchange-rates/:id - Correct a rate; invoices keep the rate they were issued with
+exchangeRatesRouter.patch('/:id', requireRole(Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params
+    const updateData = UpdateExchangeRateSchema.parse(req.body)
+
+    const rate = await prisma.exchangeRate.update({
+      where: { id },
+      data: {
+        ...updateData,
+        updatedAt: new Date(),
+      },
+      include: { User: userSelect }
+    })
+
+    return res.json({
+      success: true,
+      data: rate
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2025') {
+      return res.status(404).json({ success: false, error: 'Exchange rate not found' })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return res.status(409).json({ success: false, error: 'A rate for this currency pair and date already exists' })
+    }
+    console.error('Update exchange rate error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to update exchange rate' })
+  }
+})
+
+// DELETE /api/v1/exchange-rates/:id - Delete a rate
+exchangeRatesRouter.delete('/:id', requireRole(Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params
+
+    await prisma.exchangeRate.delete({
+      where: { id }
+    })
+
+    return res.status(204).end()
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2025') {
+      return res.status(404).json({ success: false, error: 'Exchange rate not found' })
+    }
+    console.error('Delete exchange rate error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to delete exchange rate' })
+  }
+})
@@ -0,0 +1,174 @@
+import { Router } from 'express'
+import { z } from 'zod'
+import { requireAuth, requireRole, AuthRequest } from '../middleware/auth'
+import { prisma } from '../lib/prisma'
+import { env } from '../config/env'
+import { getMailer } from '../lib/mailer'
+import { INVITATION_TTL_DAYS, isInvitationPending, normalizeEmail } from '../lib/onboarding'
+import { Role, UserInvitation } from '@prisma/client'
+import crypto from 'crypto'
+
+export const invitationsRouter = Router()
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Validation schemas
+const CreateInvitationSchema = z.object({
+  email: z.string().trim().email(),
+  role: z.nativeEnum(Role).default(Role.USER),
+  expiresInDays: z.number().int().min(1).max(30).default(INVITATION_TTL_DAYS),
+})
+
+const ListInvitationsQuerySchema = z.object({
+  status: z.enum(['pending', 'accepted', 'expired']).optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().default(20).transform((value) => Math.min(value, 100)),
+})
+
+const invitationInclude = {
+  User: {
+    select: {
+      id: true,
+      email: true,
+      name: true,
+    }
+  }
+} as const
+
+const invitationStatus = (invitation: UserInvitation) =>
+  invitation.acceptedAt ? 'accepted' : isInvitationPending(invitation) ? 'pending' : 'expired'
+
+// Admins invite staff; only a super admin may invite, or withdraw the invitation of, another super admin
+const canManageRole = (req: AuthRequest, role: Role) => req.user.role === Role.SUPER_ADMIN || role !== Role.SUPER_ADMIN
+
+invitationsRouter.use(requireAuth)
+
+// GET /api/v1/invitations - List invitations, optionally by status
+invitationsRouter.get('/', requireRole(Role.SUPER_ADMIN, Role.ADMIN), async (req: AuthRequest, res) => {
+  try {
+    const parsed = ListInvitationsQuerySchema.safeParse(req.query)
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: parsed.error.errors })
+    }
+    const { status, page, limit } = parsed.data
+
+    const now = new Date()
+    const where = status === 'accepted'
+      ? { acceptedAt: { not: null } }
+      : status === 'pending'
+        ? { acceptedAt: null, expiresAt: { gt: now } }
+        : status === 'expired'
+          ? { acceptedAt: null, expiresAt: { lte: now } }
+          : {}
+
+    const [invitations, total] = await Promise.all([
+      prisma.userInvitation.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: invitationInclude,
+      }),
+      prisma.userInvitation.count({ where }),
+    ])
+
+    return res.json({
+      success: true,
+      data: {
+        items: invitations.map((invitation) => ({ ...invitation, status: invitationStatus(invitation) })),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        }
+      }
+    })
+  } catch (error) {
+    console.error('List invitations error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to fetch invitations' })
+  }
+})
+
+// POST /api/v1/invitations - Invite an address; inviting it again renews the invitation
+invitationsRouter.post('/', requireRole(Role.SUPER_ADMIN, Role.ADMIN), async (req: AuthRequest, res) => {
+  try {
+    const parsed = CreateInvitationSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: parsed.error.errors })
+    }
+    const { role, expiresInDays } = parsed.data
+    const email = normalizeEmail(parsed.data.email)
+    if (!canManageRole(req, role)) {
+      return res.status(403).json({ success: false, error: 'Only a super admin can invite a super admin' })
+    }
+
+    const existingUser = await prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+      select: { id: true },
+    })
+    if (existingUser) {
+      return res.status(409).json({ success: false, error: 'A user with this email already exists' })
+    }
+
+    // Renewing replaces the role, so an admin may not rewrite a super admin's invitation either
+    const existingInvitation = await prisma.userInvitation.findUnique({ where: { email }, select: { role: true } })
+    if (existingInvitation && !canManageRole(req, existingInvitation.role)) {
+      return res.status(403).json({ success: false, error: 'Only a super admin can change this invitation' })
+    }
+
+    const fields = {
+      role,
+      expiresAt: new Date(Date.now() + expiresInDays * DAY_MS),
+      invitedById: req.user.id,
+      acceptedAt: null,
+      updatedAt: new Date(),
+    }
+    const invitation = await prisma.userInvitation.upsert({
+      where: { email },
+      create: { id: crypto.randomUUID(), email, ...fields },
+      update: fields,
+      include: invitationInclude,
+    })
+
+    // The invitation stands even if the email cannot be sent; the admin can pass the address on
+    let emailSent = true
+    try {
+      await getMailer().send({
+        to: email,
+        subject: 'You are invited to Alias Auto',
+        text: `You have been invited to the Alias Auto admin. Sign in at ${env.APP_URL} with this email address before ${fields.expiresAt.toISOString().split('T')[0]}.`,
+      })
+    } catch (error) {
+      console.error('Send invitation email error:', error)
+      emailSent = false
+    }
+
+    return res.status(201).json({ success: true, data: { ...invitation, status: invitationStatus(invitation), emailSent } })
+  } catch (error) {
+    console.error('Create invitation error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to create invitation' })
+  }
+})
+
+// DELETE /api/v1/invitations/:id - Withdraw an invitation that has not been accepted
+invitationsRouter.delete('/:id', requireRole(Role.SUPER_ADMIN, Role.ADMIN), async (req: AuthRequest, res) => {
+  try {
+    const invitation = await prisma.userInvitation.findUnique({ where: { id: req.params.id } })
+    if (!invitation) {
+      return res.status(404).json({ success: false, error: 'Invitation not found' })
+    }
+    if (!canManageRole(req, invitation.role)) {
+      return res.status(403).json({ success: false, error: 'Only a super admin can withdraw this invitation' })
+    }
+    if (invitation.acceptedAt) {
+      return res.status(409).json({ success: false, error: 'Invitation was already accepted; deactivate the user instead' })
+    }
+
+    await prisma.userInvitation.delete({ where: { id: invitation.id } })
+    return res.json({ success: true })
+  } catch (error) {
+    console.error('Delete invitation error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to delete invitation' })
+  }
+})
@@ -3,7 +3,10 @@ import { z } from 'zod'
 import { requireAuth, requireRole, AuthRequest } from '../middleware/auth'
 import { prisma } from '../lib/prisma'
 import { s3Service } from '../lib/s3'
-import { Role } from '@prisma/client'
+import { validateInvoiceTemplate, InvoiceTemplateValidation, SAMPLE_INVOICE_DATA, findCurrentTemplate } from '../lib/invoice-template'
+import { renderInvoiceDocx, DOCX_CONTENT_TYPE, PDF_CONTENT_TYPE } from '../lib/invoice-document'
+import { convertDocxToPdf } from '../lib/pdf-converter'
+import { Prisma, Role } from '@prisma/client'
 import crypto from 'crypto'
 
 export const invoiceTemplatesRouter = Router()
@@ -17,13 +20,144 @@ const CreateTemplateSchema = z.object({
   fileName: z.string().min(1),
   fileUrl: z.string().url(),
   s3Key: z.string().min(1),
+  // Add a new version to this family; otherwise a new family is started
+  familyId: z.string().min(1).optional(),
+  familyName: z.string().trim().min(1).max(255).optional(), // Name of the new family, defaults to fileName
+  description: z.string().trim().max(1000).optional(),
 })
 
+const ListTemplatesQuerySchema = z.object({
+  familyId: z.string().min(1).optional(),
+  includeArchived: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+})
+
+const UpdateFamilySchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  description: z.string().trim().max(1000).nullable().optional(),
+})
+
+const SetDefaultSchema = z.object({
+  familyId: z.string().min(1),
+})
+
+const previewText = z.string().max(2000)
+
+const PreviewLineSchema = z.object({
+  no: z.number(),
+  type: previewText,
+  description: previewText,
+  quantity: z.number(),
+  unit_price: z.number(),
+  amount: z.number(),
+  converted_unit_price: z.number(),
+  converted_amount: z.number(),
+  weight: z.number(),
+  car_vin: previewText,
+  car_model: previewText,
+  car_year: z.number(),
+  volume: z.number(),
+  fuel_type: previewText,
+}).partial().strict()
+
+const PreviewCarSchema = z.object({
+  no: z.number(),
+  car_year: z.number(),
+  car_model: previewText,
+  volume: z.number(),
+  fuel_type: previewText,
+  car_vin: previewText,
+  unit_price: z.number(),
+  converted_unit_price: z.number(),
+  weight: z.number(),
+}).partial().strict()
+
+// Sample values a preview may override; images and the file URL are never taken from the request,
+// since they are read from the bucket
+const PreviewDataSchema = z.object({
+  shipper_name: previewText,
+  shipper_address: previewText,
+  shipper_tel: previewText,
+  invoice_no: previewText,
+  invoice_date: previewText,
+  destination_country: previewText,
+  destination: previewText,
+  consignee_name: previewText,
+  consignee_address: previewText,
+  consignee_tel: previewText,
+  consignee_iin: previewText,
+  port_loading: previewText,
+  port_name: previewText,
+  sailing_date: previewText,
+  car_year: z.number(),
+  car_model: previewText,
+  volume: z.number(),
+  fuel_type: previewText,
+  car_vin: previewText,
+  unit_price: z.number(),
+  weight: z.number(),
+  lines: z.array(PreviewLineSchema).max(100),
+  cars: z.array(PreviewCarSchema).max(100),
+  car_count: z.number(),
+  total_price: z.number(),
+  total_weight: z.number(),
+  currency: previewText,
+  price_currency: previewText,
+  exchange_rate: z.number(),
+  exchange_rate_date: previewText,
+  converted_total_price: z.number(),
+}).partial().strict()
+
+const PreviewSchema = z.object({
+  // Overrides for the sample placeholder values
+  data: PreviewDataSchema.default({}),
+  format: z.enum(['docx', 'pdf']).default('docx'),
+})
+
+// Uploads go under this prefix; templates can only be registered from it
+const TEMPLATE_FOLDER = 'InvoiceTemplates'
+
 const allowedDocTypes = new Set([
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // .docx
   'application/msword', // legacy .doc
 ])
 
+const uploadedBySelect = {
+  select: {
+    id: true,
+    name: true,
+    email: true,
+  },
+} as const
+
+const familySelect = {
+  select: {
+    id: true,
+    name: true,
+  },
+} as const
+
+const toPlaceholderColumns = (validation: InvoiceTemplateValidation) => ({
+  placeholders: validation.tags,
+  unknownPlaceholders: validation.unknownTags,
+  missingPlaceholders: validation.missingTags,
+  inspectedAt: new Date(),
+})
+
+/**
+ * Download a stored template and check its placeholders
+ * @returns InvoiceTemplateValidation, or null when the file does not exist
+ */
+async function inspectStoredTemplate(s3Key: string): Promise<InvoiceTemplateValidation | null> {
+  let file: Buffer
+  try {
+    file = await s3Service.getObject(s3Key)
+  } catch (error: any) {
+    if (error?.name === 'NoSuchKey') return null
+    throw error
+  }
+  return validateInvoiceTemplate(file)
+}
+
 invoiceTemplatesRouter.use(requireAuth)
 
 invoiceTemplatesRouter.post('/upload-url', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
@@ -38,7 +172,7 @@ invoiceTemplatesRouter.post('/upload-url', requireRole(Role.SUPER_ADMIN, Role.SA
     }
 
     const userId = req.user!.id
-    const key = s3Service.generateUniqueKey(fileName, userId, 'InvoiceTemplates')
+    const key = s3Service.generateUniqueKey(fileName, userId, TEMPLATE_FOLDER)
 
     const { uploadUrl, imageUrl: fileUrl, key: s3Key } = await s3Service.generatePresignedUploadUrl(
       key,
@@ -62,74 +196,401 @@ invoiceTemplatesRouter.post('/upload-url', requireRole(Role.SUPER_ADMIN, Role.SA
 
 invoiceTemplatesRouter.post('/', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
   try {
-    const { fileName, fileUrl, s3Key } = CreateTemplateSchema.parse(req.body)
+    const { fileName, fileUrl, s3Key, familyId, familyName, description } = CreateTemplateSchema.parse(req.body)
 
-    const template = await prisma.invoiceTemplate.create({
-      data: {
-        id: crypto.randomUUID(),
-        fileName,
-        fileUrl,
-        s3Key,
-        uploadedById: req.user!.id,
-      },
-      include: {
-        uploadedBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
+    // The key is what gets opened (and deleted if invalid); the URL must be that same upload
+    if (!s3Key.startsWith(`${TEMPLATE_FOLDER}/`) || fileUrl !== s3Service.getPublicUrl(s3Key)) {
+      return res.status(400).json({ success: false, error: 'fileUrl and s3Key must refer to the same uploaded template' })
+    }
+
+    if (familyId) {
+      const family = await prisma.invoiceTemplateFamily.findUnique({ where: { id: familyId }, select: { id: true } })
+      if (!family) {
+        return res.status(404).json({ success: false, error: 'Template family not found' })
+      }
+    }
+
+    // Open the uploaded file now rather than when the first invoice fails
+    const validation = await inspectStoredTemplate(s3Key)
+    if (!validation) {
+      return res.status(400).json({ success: false, error: 'Uploaded template file not found' })
+    }
+
+    if (validation.errors.length > 0) {
+      await s3Service.deleteObject(s3Key).catch((error) => {
+        console.error('Failed to delete rejected invoice template:', error)
+      })
+      return res.status(422).json({
+        success: false,
+        error: 'Invoice template is invalid',
+        details: validation.errors,
+      })
+    }
+
+    const template = await prisma.$transaction(async (tx) => {
+      let targetFamilyId = familyId
+      let version = 1
+
+      if (targetFamilyId) {
+        const latest = await tx.invoiceTemplate.findFirst({
+          where: { familyId: targetFamilyId },
+          orderBy: { version: 'desc' },
+          select: { version: true },
+        })
+        version = (latest?.version ?? 0) + 1
+      } else {
+        const family = await tx.invoiceTemplateFamily.create({
+          data: {
+            id: crypto.randomUUID(),
+            name: familyName || fileName,
+            description,
+            createdById: req.user!.id,
+            updatedAt: new Date(),
           },
+        })
+        targetFamilyId = family.id
+      }
+
+      return tx.invoiceTemplate.create({
+        data: {
+          id: crypto.randomUUID(),
+          familyId: targetFamilyId,
+          version,
+          fileName,
+          fileUrl,
+          s3Key,
+          ...toPlaceholderColumns(validation),
+          uploadedById: req.user!.id,
         },
-      },
+        include: {
+          Family: familySelect,
+          uploadedBy: uploadedBySelect,
+        },
+      })
     })
 
     return res.json({ success: true, data: template })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        error: 'A template family with this name already exists, or a version was added concurrently. Pass familyId to add a version.',
+      })
+    }
     console.error('Invoice template create error:', error)
     return res.status(500).json({ success: false, error: 'Failed to save invoice template' })
   }
 })
 
-invoiceTemplatesRouter.get('/', requireRole(Role.SUPER_ADMIN, Role.SALES), async (_req: AuthRequest, res) => {
+// Re-check a stored template, e.g. one uploaded before placeholders were validated
+invoiceTemplatesRouter.post('/:id/inspect', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
+  const { id } = req.params
+
+  try {
+    const existing = await prisma.invoiceTemplate.findUnique({ where: { id } })
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Template not found' })
+    }
+
+    const validation = await inspectStoredTemplate(existing.s3Key)
+    if (!validation) {
+      return res.status(404).json({ success: false, error: 'Template file not found' })
+    }
+
+    const template = await prisma.invoiceTemplate.update({
+      where: { id },
+      data: toPlaceholderColumns(validation),
+      include: {
+        Family: familySelect,
+        uploadedBy: uploadedBySelect,
+      },
+    })
+
+    return res.json({ success: true, data: template })
+  } catch (error) {
+    console.error('Invoice template inspect error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to inspect invoice template' })
+  }
+})
+
+// Render a template with sample data, overridden by any values sent; nothing is stored
+invoiceTemplatesRouter.post('/:id/preview', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
+  const { id } = req.params
+
   try {
+    const { data, format } = PreviewSchema.parse(req.body ?? {})
+
+    const template = await prisma.invoiceTemplate.findUnique({ where: { id } })
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Template not found' })
+    }
+
+    const file = await s3Service.getObject(template.s3Key)
+    const { lines, cars, ...fields } = data
+    const docx = await renderInvoiceDocx(file, {
+      ...SAMPLE_INVOICE_DATA,
+      ...fields,
+      // Rows not sent in full keep the sample's first row values
+      lines: lines?.map((line) => ({ ...SAMPLE_INVOICE_DATA.lines[0], ...line })) ?? SAMPLE_INVOICE_DATA.lines,
+      cars: cars?.map((car) => ({ ...SAMPLE_INVOICE_DATA.cars[0], ...car })) ?? SAMPLE_INVOICE_DATA.cars,
+      file_url: template.fileUrl,
+    })
+    const document = format === 'pdf' ? await convertDocxToPdf(docx) : docx
+
+    const baseName = template.fileName.replace(/\.docx?$/i, '')
+    res.setHeader('Content-Type', format === 'pdf' ? PDF_CONTENT_TYPE : DOCX_CONTENT_TYPE)
+    res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(`${baseName}-preview.${format}`)}"`)
+    return res.send(document)
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    if (error?.name === 'NoSuchKey') {
+      return res.status(404).json({ success: false, error: 'Template file not found' })
+    }
+    // Docxtemplater reports malformed placeholders as a multi error
+    if (error?.properties?.errors) {
+      return res.status(422).json({
+        success: false,
+        error: 'Invoice template is invalid',
+        details: error.properties.errors.map((e: any) => e.properties?.explanation || e.message),
+      })
+    }
+    console.error('Invoice template preview error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to render invoice template preview' })
+  }
+})
+
+invoiceTemplatesRouter.get('/', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
+  try {
+    const { familyId, includeArchived } = ListTemplatesQuerySchema.parse(req.query)
+
+    const where: Prisma.InvoiceTemplateWhereInput = {}
+    if (familyId) where.familyId = familyId
+    if (!includeArchived) where.archivedAt = null
+
     const templates = await prisma.invoiceTemplate.findMany({
+      where,
       orderBy: { createdAt: 'desc' },
       include: {
-        uploadedBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
+        Family: familySelect,
+        uploadedBy: uploadedBySelect,
       },
     })
 
     return res.json({ success: true, data: templates })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
     console.error('Invoice template list error:', error)
     return res.status(500).json({ success: false, error: 'Failed to fetch invoice templates' })
   }
 })
 
+// Families with their versions, newest first, and the countries that use them by default
+invoiceTemplatesRouter.get('/families', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
+  try {
+    const { includeArchived } = ListTemplatesQuerySchema.parse(req.query)
+
+    const families = await prisma.invoiceTemplateFamily.findMany({
+      orderBy: { name: 'asc' },
+      include: {
+        Templates: {
+          where: includeArchived ? {} : { archivedAt: null },
+          orderBy: { version: 'desc' },
+          include: { uploadedBy: uploadedBySelect },
+        },
+        Countries: {
+          select: { code: true, name: true },
+          orderBy: { name: 'asc' },
+        },
+      },
+    })
+
+    return res.json({ success: true, data: families })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    console.error('Invoice template family list error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to fetch invoice template families' })
+  }
+})
+
+invoiceTemplatesRouter.patch('/families/:familyId', requireRole(Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
+  const { familyId } = req.params
+
+  try {
+    const updateData = UpdateFamilySchema.parse(req.body)
+
+    const family = await prisma.invoiceTemplateFamily.update({
+      where: { id: familyId },
+      data: { ...updateData, updatedAt: new Date() },
+    })
+
+    return res.json({ success: true, data: family })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2025') {
+      return res.status(404).json({ success: false, error: 'Template family not found' })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return res.status(409).json({ success: false, error: 'A template family with this name already exists' })
+    }
+    console.error('Invoice template family update error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to update invoice template family' })
+  }
+})
+
+// Default family per destination country (stored on the Country row), with the version new invoices will use
+invoiceTemplatesRouter.get('/defaults', requireRole(Role.SUPER_ADMIN, Role.SALES), async (_req: AuthRequest, res) => {
+  try {
+    const countries = await prisma.country.findMany({
+      where: { defaultTemplateFamilyId: { not: null } },
+      orderBy: { name: 'asc' },
+      select: { name: true, defaultTemplateFamilyId: true, DefaultTemplateFamily: familySelect },
+    })
+
+    const data = await Promise.all(
+      countries.map(async (entry) => ({
+        country: entry.name,
+        familyId: entry.defaultTemplateFamilyId!,
+        Family: entry.DefaultTemplateFamily,
+        currentTemplate: await findCurrentTemplate(entry.defaultTemplateFamilyId!),
+      }))
+    )
+
+    return res.json({ success: true, data })
+  } catch (error) {
+    console.error('Invoice template defaults list error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to fetch default invoice templates' })
+  }
+})
+
+invoiceTemplatesRouter.put('/defaults/:country', requireRole(Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
+  const { country } = req.params
+
+  try {
+    const { familyId } = SetDefaultSchema.parse(req.body)
+
+    const family = await prisma.invoiceTemplateFamily.findUnique({ where: { id: familyId }, select: { id: true } })
+    if (!family) {
+      return res.status(404).json({ success: false, error: 'Template family not found' })
+    }
+
+    const entry = await prisma.country.update({
+      where: { name: country },
+      data: { defaultTemplateFamilyId: familyId, updatedAt: new Date() },
+      select: { name: true, DefaultTemplateFamily: familySelect },
+    })
+
+    return res.json({ success: true, data: { country: entry.name, familyId, Family: entry.DefaultTemplateFamily } })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2025') {
+      return res.status(404).json({ success: false, error: 'Country not found' })
+    }
+    console.error('Invoice template default update error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to set default invoice template' })
+  }
+})
+
+invoiceTemplatesRouter.delete('/defaults/:country', requireRole(Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
+  const { country } = req.params
+
+  try {
+    const { count } = await prisma.country.updateMany({
+      where: { name: country, defaultTemplateFamilyId: { not: null } },
+      data: { defaultTemplateFamilyId: null, updatedAt: new Date() },
+    })
+    if (count === 0) {
+      return res.status(404).json({ success: false, error: 'No default template for this country' })
+    }
+
+    return res.json({ success: true })
+  } catch (error) {
+    console.error('Invoice template default delete error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to remove default invoice template' })
+  }
+})
+
+// Bring an archived version back into use
+invoiceTemplatesRouter.post('/:id/restore', requireRole(Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
+  const { id } = req.params
+
+  try {
+    const template = await prisma.invoiceTemplate.update({
+      where: { id },
+      data: { archivedAt: null },
+      include: {
+        Family: familySelect,
+        uploadedBy: uploadedBySelect,
+      },
+    })
+
+    return res.json({ success: true, data: template })
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2025') {
+      return res.status(404).json({ success: false, error: 'Template not found' })
+    }
+    console.error('Invoice template restore error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to restore invoice template' })
+  }
+})
+
+// Templates that invoices were generated from are archived, keeping the file for regeneration
 invoiceTemplatesRouter.delete('/:id', requireRole(Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
   const { id } = req.params
 
   try {
-    const template = await prisma.invoiceTemplate.findUnique({ where: { id } })
-    if (!template) {
+    // The row lock holds off invoices being created from this template until the check and delete are done
+    const result = await prisma.$transaction(async (tx) => {
+      const [locked] = await tx.$queryRaw<{ id: string }[]>`SELECT "id" FROM "InvoiceTemplate" WHERE "id" = ${id} FOR UPDATE`
+      if (!locked) return null
+
+      const template = await tx.invoiceTemplate.findUniqueOrThrow({ where: { id } })
+      const [invoiceCount, revisionCount] = await Promise.all([
+        tx.invoice.count({ where: { invoiceTemplateId: id } }),
+        tx.invoiceRevision.count({ where: { data: { path: ['invoiceTemplateUrl'], equals: template.fileUrl } } }),
+      ])
+
+      if (invoiceCount + revisionCount > 0) {
+        const archived = await tx.invoiceTemplate.update({
+          where: { id },
+          data: { archivedAt: template.archivedAt ?? new Date() },
+        })
+        return { template, archived }
+      }
+
+      await tx.invoiceTemplate.delete({ where: { id } })
+      // A family without versions is gone too, along with any country defaults pointing at it
+      const remaining = await tx.invoiceTemplate.count({ where: { familyId: template.familyId } })
+      if (remaining === 0) {
+        await tx.invoiceTemplateFamily.delete({ where: { id: template.familyId } })
+      }
+      return { template, archived: null }
+    })
+
+    if (!result) {
       return res.status(404).json({ success: false, error: 'Template not found' })
     }
+    if (result.archived) {
+      return res.json({ success: true, archived: true, data: result.archived })
+    }
 
-    await Promise.all([
-      s3Service.deleteObject(template.s3Key),
-      prisma.invoiceTemplate.delete({ where: { id } }),
-    ])
+    await s3Service.deleteObject(result.template.s3Key)
 
-    return res.json({ success: true })
+    return res.json({ success: true, archived: false })
   } catch (error) {
     console.error('Invoice template delete error:', error)
     return res.status(500).json({ success: false, error: 'Failed to delete invoice template' })
   }
 })
-
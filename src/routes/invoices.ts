@@ -1,67 +1,88 @@
-import { Router } from 'express'
+import { Router, Response } from 'express'
 import { z } from 'zod'
-import { requireAuth, requireRole, AuthRequest } from '../middleware/auth'
+import { requireAuth, requireRole, requireAuthorOrAdmin, AuthRequest } from '../middleware/auth'
 import { prisma } from '../lib/prisma'
 import { s3Service } from '../lib/s3'
-import { Prisma, Role } from '@prisma/client'
+import { prepareInvoice, getInvoiceInput, InvoiceBuildError, PreparedInvoice, PreparedInvoiceLine } from '../lib/invoice-builder'
+import { InvoiceTemplateData } from '../lib/invoice-document'
+import { getDocumentProvider, DocumentProviderError } from '../lib/document-provider'
+import { allocateInvoiceNumber, InvoiceSequenceOverflowError } from '../lib/invoice-number'
+import { InvoiceCountryError } from '../lib/country'
+import { canTransition, isEditable, STATUS_TIMESTAMP_FIELD } from '../lib/invoice-status'
+import { InvoiceListQuerySchema, InvoiceFilterSchema, buildInvoiceWhere, buildInvoiceOrderBy } from '../lib/invoice-query'
+import { ExportColumn, ExportFormatSchema, exportFileName, fetchInBatches, sendSpreadsheet } from '../lib/spreadsheet-export'
+import { CurrencyCodeSchema, resolveExchangeRate, ExchangeRateNotFoundError } from '../lib/exchange-rate'
+import { Invoice, InvoiceLineType, InvoiceStatus, Prisma, Role } from '@prisma/client'
 import crypto from 'crypto'
 
 export const invoicesRouter = Router()
 
-// Country code mapping
-const COUNTRY_CODE_MAP: Record<string, string> = {
-  'Russia': 'RU',
-  'Uzbekistan': 'UZ',
-  'Kazakhstan': 'KZ',
-  'Kyrgyzstan': 'KG',
-}
+// Largest shipment accepted by the batch endpoint
+const MAX_BATCH_CARS = 50
 
-/**
- * Generate invoice number in format: {COUNTRY_CODE}-{YYYYMMDD}{SEQUENCE}
- * Example: RU-2025112001 (country code separated from date, but date and sequence together)
- */
-async function generateInvoiceNumber(country: string, date: Date): Promise<string> {
-  // Get country code
-  const countryCode = COUNTRY_CODE_MAP[country] || country.substring(0, 2).toUpperCase()
-  
-  // Format date as YYYYMMDD
-  const year = date.getFullYear()
-  const month = String(date.getMonth() + 1).padStart(2, '0')
-  const day = String(date.getDate()).padStart(2, '0')
-  const dateStr = `${year}${month}${day}`
-  
-  // Find start and end of the day
-  const startOfDay = new Date(date)
-  startOfDay.setHours(0, 0, 0, 0)
-  const endOfDay = new Date(date)
-  endOfDay.setHours(23, 59, 59, 999)
-  
-  // Count existing invoices for this country on this date
-  const count = await prisma.invoice.count({
-    where: {
-      country: country,
-      date: {
-        gte: startOfDay,
-        lte: endOfDay,
-      },
-    },
-  })
-  
-  // Sequence number is count + 1, padded to 2 digits
-  const sequence = String(count + 1).padStart(2, '0')
-  
-  return `${countryCode}-${dateStr}${sequence}`
-}
+const MAX_INVOICE_LINES = 100
+
+const invoiceInclude = {
+  User: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      image: true,
+    }
+  },
+  CarRecord: {
+    select: {
+      id: true,
+      vin: true,
+      car_model: true,
+      engine_cc: true,
+      weight: true,
+      manufacture_date: true,
+      price: true,
+      fuel_type: true,
+      engineCc: true,
+      weightKg: true,
+      priceAmount: true,
+      priceCurrency: true,
+      manufactureYear: true,
+      manufactureMonth: true,
+    }
+  },
+  Lines: {
+    orderBy: { position: 'asc' }
+  }
+} satisfies Prisma.InvoiceInclude
 
 // Validation schemas
+const InvoiceLineSchema = z.object({
+  type: z.nativeEnum(InvoiceLineType).default(InvoiceLineType.VEHICLE),
+  carRecordId: z.string().min(1).optional(),
+  description: z.string().trim().min(1).max(500).optional(),
+  quantity: z.number().int().positive().default(1),
+  unitPrice: z.number().nonnegative().optional(),
+  weight: z.number().nonnegative().optional(),
+}).refine((line) => line.type !== InvoiceLineType.VEHICLE || Boolean(line.carRecordId), {
+  message: 'Vehicle lines require carRecordId',
+  path: ['carRecordId'],
+}).refine((line) => line.type === InvoiceLineType.VEHICLE || (Boolean(line.description) && line.unitPrice !== undefined), {
+  message: 'Non-vehicle lines require description and unitPrice',
+  path: ['description'],
+})
+
 const CreateInvoiceSchema = z.object({
   companyId: z.string().min(1),
-  portInfoId: z.string().min(1),
+  portInfoId: z.string().min(1).optional(), // Defaults to the country's default port
   country: z.string().min(1),
   destination: z.string().min(1),
-  destinationCountry: z.string().min(1),
-  invoiceTemplateUrl: z.string().url(),
+  destinationCountry: z.string().min(1).optional(), // Defaults to the country's official name
+  invoiceTemplateUrl: z.string().url().optional(), // Defaults to invoiceTemplateId, then the country's default template
+  invoiceTemplateId: z.string().min(1).optional(),
   carRecordId: z.string().optional(), // Optional car record ID
+  carRecordIds: z.array(z.string().min(1)).max(MAX_BATCH_CARS).optional(), // Several cars on one invoice
+  lines: z.array(InvoiceLineSchema).max(MAX_INVOICE_LINES).optional(), // Vehicles and fees; overrides the car ids
+  currency: CurrencyCodeSchema.optional(), // Invoice currency, defaults to USD
+  priceCurrency: CurrencyCodeSchema.optional(), // Currency the prices are given in, defaults to the cars' price currency, then USD
   mode: z.enum(['fake', 'original']).default('fake'),
   buyer: z.object({
     country: z.string(),
@@ -69,42 +90,171 @@ const CreateInvoiceSchema = z.object({
     consignee_address: z.string(),
     consignee_iin: z.string(),
     consignee_tel: z.string(),
-  }),
+  }).optional(), // Required unless consigneeId is given
+  consigneeId: z.string().min(1).optional(), // Saved consignee, copied into the invoice
+})
+
+const UpdateInvoiceSchema = CreateInvoiceSchema.partial()
+
+const BatchInvoiceSchema = CreateInvoiceSchema.omit({ carRecordId: true, carRecordIds: true, lines: true }).extend({
+  carRecordIds: z.array(z.string().min(1)).min(1).max(MAX_BATCH_CARS)
+    .transform((ids) => [...new Set(ids)]),
+  // perCar: one invoice per car; combined: one invoice listing every car with totals
+  grouping: z.enum(['perCar', 'combined']).default('perCar'),
+})
+
+const CancelInvoiceSchema = z.object({
+  reason: z.string().trim().min(1).max(1000),
 })
 
 // Middleware to check if user owns the invoice or is SUPER_ADMIN
-const requireOwnerOrAdmin = async (req: AuthRequest, res: any, next: any) => {
-  const { id } = req.params
-  const userId = req.user?.id
-  const userRole = req.user?.role
+const requireOwnerOrAdmin = requireAuthorOrAdmin(
+  (id) => prisma.invoice.findUnique({ where: { id }, select: { authorId: true } }),
+  'Invoice not found'
+)
 
-  if (userRole === Role.SUPER_ADMIN) {
-    return next()
+/**
+ * Best-effort PDF rendition; missing ones are converted on download or by the backfill script
+ */
+async function renderPdfRendition(fileUrl: string, invoiceNumber: string): Promise<string | null> {
+  try {
+    return (await getDocumentProvider().generateInvoicePdf({ fileUrl }, invoiceNumber)).fileUrl
+  } catch (error) {
+    console.error('PDF rendition error:', error)
+    return null
   }
+}
+
+// An invoice whose document could not be generated is voided rather than deleted
+async function cancelUndocumentedInvoice(invoiceId: string, reason: string) {
+  const now = new Date()
+  await prisma.invoice.updateMany({
+    where: { id: invoiceId, status: InvoiceStatus.DRAFT },
+    data: {
+      status: InvoiceStatus.CANCELLED,
+      cancelledAt: now,
+      cancelReason: `Document generation failed: ${reason}`,
+      updatedAt: now,
+    },
+  })
+}
 
+/**
+ * Render the document of an invoice saved without one and attach it, with its PDF rendition.
+ * Rendering happens after the number is committed so the country's sequence row is not locked
+ * meanwhile. If it fails the invoice is cancelled: its number stays accounted for instead of leaving a gap.
+ */
+async function attachInvoiceDocument(invoiceId: string, templateData: InvoiceTemplateData) {
+  let fileUrl: string
   try {
-    const invoice = await prisma.invoice.findUnique({
-      where: { id },
-      select: { authorId: true }
-    })
+    const document = await getDocumentProvider().generateInvoiceDocx(templateData)
+    fileUrl = document.fileUrl
+    console.log('✅ Word document generated successfully:', fileUrl)
+  } catch (error) {
+    await cancelUndocumentedInvoice(invoiceId, error instanceof Error ? error.message : 'Unknown error')
+    throw error
+  }
 
-    if (!invoice) {
-      return res.status(404).json({ success: false, error: 'Invoice not found' })
-    }
+  const pdfUrl = await renderPdfRendition(fileUrl, templateData.invoice_no)
+  await prisma.invoice.update({
+    where: { id: invoiceId },
+    data: { fileUrl, pdfUrl, updatedAt: new Date() },
+  })
+}
 
-    if (invoice.authorId !== userId) {
-      return res.status(403).json({ success: false, error: 'Forbidden' })
-    }
+/**
+ * Remove documents uploaded for an invoice that was never saved.
+ * Accepts S3 keys or URLs; files outside our bucket are left alone.
+ */
+async function cleanupGeneratedFiles(files: (string | null | undefined)[]) {
+  const keys = files
+    .filter((file): file is string => Boolean(file))
+    .filter((file) => !file.includes('://') || s3Service.isBucketUrl(file))
+    .map((file) => (file.includes('://') ? s3Service.extractKeyFromUrl(file) : file))
+
+  if (keys.length === 0) return
+  await s3Service.deleteObjects(keys).catch((error) => {
+    console.error('Failed to clean up generated invoice files:', error)
+  })
+}
+
+// Outcome for one car of a batch request
+interface BatchInvoiceResult {
+  carRecordId: string
+  success: boolean
+  invoiceId?: string
+  invoiceNumber?: string
+  error?: string
+  details?: string[]
+}
+
+// Nested create for the lines of a new or regenerated invoice
+const createInvoiceLines = (lines: PreparedInvoiceLine[]) => ({
+  create: lines.map((line) => ({ id: crypto.randomUUID(), ...line })),
+})
+
+/**
+ * Regenerate an invoice's document under the same number from new prepared data,
+ * keeping the superseded document and data as a revision
+ */
+async function regenerateInvoice(existing: Invoice, prepared: PreparedInvoice, revisedById: string) {
+  const { templateData, snapshot, invoiceTemplateId, consigneeId, lines, totals, pricing, carColumns } = prepared
+
+  const provider = getDocumentProvider()
+  const document = await provider.generateInvoiceDocx({ ...templateData, invoice_no: existing.invoiceNumber })
+  const pdfUrl = await renderPdfRendition(document.fileUrl, existing.invoiceNumber)
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // Keep the superseded document and data for audit
+      await tx.invoiceRevision.create({
+        data: {
+          id: crypto.randomUUID(),
+          invoiceId: existing.id,
+          revision: existing.revision,
+          fileUrl: existing.fileUrl,
+          pdfUrl: existing.pdfUrl,
+          data: existing.data as Prisma.InputJsonValue,
+          revisedById,
+        },
+      })
 
-    next()
+      return tx.invoice.update({
+        where: { id: existing.id },
+        data: {
+          fileUrl: document.fileUrl,
+          pdfUrl,
+          data: snapshot as Prisma.InputJsonValue,
+          ...carColumns,
+          invoiceTemplateId,
+          consigneeId,
+          ...totals,
+          ...pricing,
+          Lines: { deleteMany: {}, ...createInvoiceLines(lines) },
+          revision: { increment: 1 },
+          updatedAt: new Date(),
+        },
+        include: invoiceInclude,
+      })
+    })
   } catch (error) {
-    return res.status(500).json({ success: false, error: 'Internal server error' })
+    await cleanupGeneratedFiles([document.fileUrl, pdfUrl])
+    throw error
   }
 }
 
+function sendInvoiceGenerationError(res: Response, error: InvoiceBuildError | DocumentProviderError) {
+  console.error('Invoice generation error:', error)
+  return res.status(error.status).json({
+    success: false,
+    error: error.message,
+    ...(error instanceof DocumentProviderError && error.details ? { details: error.details } : {}),
+  })
+}
+
 invoicesRouter.use(requireAuth)
 
-// POST /api/v1/invoices/generate-consignee - Generate consignee data from Python server
+// POST /api/v1/invoices/generate-consignee - Generate consignee data via the document provider
 invoicesRouter.post('/generate-consignee', async (req, res) => {
   try {
     const { country } = req.body
@@ -113,72 +263,19 @@ invoicesRouter.post('/generate-consignee', async (req, res) => {
       return res.status(400).json({ success: false, error: 'Country is required' })
     }
 
-    console.log('Generating consignee for country:', country)
-
-    // Call Python server directly with timeout
-    const pythonServerUrl = 'http://43.200.233.218:8000'
-    
-    // Create AbortController for timeout
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 30000) // 30 second timeout
-    
-    try {
-      const response = await fetch(`${pythonServerUrl}/api/generate-consignee`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        },
-        body: JSON.stringify({ country }),
-        signal: controller.signal, // Add abort signal for timeout
-      })
-      
-      clearTimeout(timeoutId) // Clear timeout if request succeeds
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error('Python server error response:', errorText)
-        return res.status(response.status).json({
-          success: false,
-          error: errorText || 'Failed to generate consignee'
-        })
-      }
+    const consignee = await getDocumentProvider().generateConsignee(country)
 
-      const pythonResponse = await response.json()
-      console.log('Python server response:', JSON.stringify(pythonResponse, null, 2))
-      
-      // Python server returns: { "country": "...", "data": { "consignee_name": "...", ... } }
-      // Return in format expected by frontend
-      return res.json({
-        success: true,
-        data: pythonResponse.data || pythonResponse
-      })
-    } catch (fetchError: any) {
-      clearTimeout(timeoutId) // Clear timeout on error
-      
-      // Check if error is due to timeout/abort
-      if (fetchError.name === 'AbortError' || fetchError.message?.includes('aborted')) {
-        console.error('Python server request timed out after 30 seconds')
-        return res.status(504).json({
-          success: false,
-          error: 'Request to Python server timed out. Please try again.'
-        })
-      }
-      
-      // Re-throw to be caught by outer catch
-      throw fetchError
-    }
+    return res.json({
+      success: true,
+      data: consignee
+    })
   } catch (error: any) {
     console.error('Generate consignee error:', error)
-    
-    // Handle network errors
-    if (error.code === 'ECONNREFUSED' || error.code === 'ETIMEDOUT') {
-      return res.status(503).json({
-        success: false,
-        error: 'Python server is unavailable. Please try again later.'
-      })
+
+    if (error instanceof DocumentProviderError) {
+      return res.status(error.status).json({ success: false, error: error.message })
     }
-    
+
     return res.status(500).json({
       success: false,
       error: error?.message || 'Failed to generate consignee'
@@ -186,51 +283,28 @@ invoicesRouter.post('/generate-consignee', async (req, res) => {
   }
 })
 
-// GET /api/v1/invoices - List all invoices
+// GET /api/v1/invoices - List invoices with filters, sorting and page or cursor pagination
 invoicesRouter.get('/', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
   try {
-    const page = parseInt(req.query.page as string) || 1
-    const limit = parseInt(req.query.limit as string) || 20
-    const authorId = req.query.authorId as string
-    const skip = (page - 1) * limit
+    const query = InvoiceListQuerySchema.parse(req.query)
+    const { page, limit, cursor } = query
 
-    const where: Prisma.InvoiceWhereInput = {}
-    if (authorId) {
-      where.authorId = authorId
-    }
+    const where = await buildInvoiceWhere(query)
 
-    const [invoices, total] = await Promise.all([
+    const [rows, total] = await Promise.all([
       prisma.invoice.findMany({
         where,
-        include: {
-          User: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              image: true,
-            }
-          },
-          CarRecord: {
-            select: {
-              id: true,
-              vin: true,
-              car_model: true,
-              engine_cc: true,
-              weight: true,
-              manufacture_date: true,
-              price: true,
-              fuel_type: true,
-            }
-          }
-        } as any,
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit,
+        include: invoiceInclude,
+        orderBy: buildInvoiceOrderBy(query),
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : { skip: (page - 1) * limit }),
+        take: limit + 1,
       }),
       prisma.invoice.count({ where })
     ])
 
+    const invoices = rows.slice(0, limit)
+    const nextCursor = rows.length > limit ? invoices[invoices.length - 1].id : null
+
     return res.json({
       success: true,
       data: {
@@ -240,15 +314,94 @@ invoicesRouter.get('/', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: A
           limit,
           total,
           totalPages: Math.ceil(total / limit),
+          nextCursor,
         }
       }
     })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
     console.error('List invoices error:', error)
     return res.status(500).json({ success: false, error: 'Failed to fetch invoices' })
   }
 })
 
+const ExportInvoicesQuerySchema = InvoiceFilterSchema.extend({
+  format: ExportFormatSchema,
+})
+
+const invoiceExportInclude = {
+  User: { select: { email: true } },
+  Lines: {
+    select: { carVin: true },
+    orderBy: { position: 'asc' },
+  },
+} satisfies Prisma.InvoiceInclude
+
+type ExportedInvoice = Prisma.InvoiceGetPayload<{ include: typeof invoiceExportInclude }>
+
+// Snapshot fields are flattened into their own columns
+const snapshotOf = (invoice: ExportedInvoice) => (invoice.data ?? {}) as Record<string, any>
+
+const INVOICE_EXPORT_COLUMNS: ExportColumn<ExportedInvoice>[] = [
+  { header: 'Invoice number', value: (invoice) => invoice.invoiceNumber },
+  { header: 'Date', value: (invoice) => invoice.date },
+  { header: 'Status', value: (invoice) => invoice.status },
+  { header: 'Country', value: (invoice) => invoice.country },
+  { header: 'Destination country', value: (invoice) => snapshotOf(invoice).destinationCountry },
+  { header: 'Destination', value: (invoice) => snapshotOf(invoice).destination },
+  { header: 'VIN', value: (invoice) => invoice.carVin },
+  // Every vehicle on the invoice, for invoices with several cars
+  { header: 'All VINs', value: (invoice) => invoice.Lines.map((line) => line.carVin).filter(Boolean).join(', ') },
+  { header: 'Model', value: (invoice) => invoice.carModel },
+  { header: 'Year', value: (invoice) => invoice.carYear },
+  { header: 'Car price', value: (invoice) => invoice.carPrice },
+  { header: 'Total amount', value: (invoice) => Number(invoice.totalAmount) },
+  { header: 'Price currency', value: (invoice) => invoice.priceCurrency },
+  { header: 'Currency', value: (invoice) => invoice.currency },
+  { header: 'Exchange rate', value: (invoice) => Number(invoice.exchangeRate) },
+  { header: 'Converted total', value: (invoice) => Math.round(Number(invoice.totalAmount) * Number(invoice.exchangeRate) * 100) / 100 },
+  { header: 'Total weight', value: (invoice) => Number(invoice.totalWeight) },
+  { header: 'Consignee', value: (invoice) => snapshotOf(invoice).buyer?.consignee_name },
+  { header: 'Consignee address', value: (invoice) => snapshotOf(invoice).buyer?.consignee_address },
+  { header: 'Consignee phone', value: (invoice) => snapshotOf(invoice).buyer?.consignee_tel },
+  { header: 'Consignee tax ID', value: (invoice) => snapshotOf(invoice).buyer?.consignee_iin },
+  { header: 'Shipper', value: (invoice) => snapshotOf(invoice).company?.name },
+  { header: 'Mode', value: (invoice) => snapshotOf(invoice).mode },
+  { header: 'Issued at', value: (invoice) => invoice.issuedAt },
+  { header: 'Paid at', value: (invoice) => invoice.paidAt },
+  { header: 'Cancelled at', value: (invoice) => invoice.cancelledAt },
+  { header: 'Created by', value: (invoice) => invoice.User.email },
+  { header: 'Created at', value: (invoice) => invoice.createdAt },
+]
+
+// GET /api/v1/invoices/export?format=csv|xlsx - Download invoices matching the list filters
+invoicesRouter.get('/export', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
+  const parsed = ExportInvoicesQuerySchema.safeParse(req.query)
+  if (!parsed.success) {
+    return res.status(400).json({ success: false, error: parsed.error.errors })
+  }
+  const query = parsed.data
+
+  let where: Prisma.InvoiceWhereInput
+  try {
+    where = await buildInvoiceWhere(query)
+  } catch (error) {
+    console.error('Export invoices error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to export invoices' })
+  }
+  const orderBy = buildInvoiceOrderBy(query)
+
+  await sendSpreadsheet(res, {
+    format: query.format,
+    fileName: exportFileName('invoices'),
+    sheetName: 'Invoices',
+    columns: INVOICE_EXPORT_COLUMNS,
+    batches: fetchInBatches<ExportedInvoice>((page) => prisma.invoice.findMany({ where, orderBy, include: invoiceExportInclude, ...page })),
+  })
+})
+
 // GET /api/v1/invoices/:id - Get single invoice
 invoicesRouter.get('/:id', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
   try {
@@ -256,28 +409,7 @@ invoicesRouter.get('/:id', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req
 
     const invoice = await prisma.invoice.findUnique({
       where: { id },
-      include: {
-        User: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            image: true,
-          }
-        },
-        CarRecord: {
-          select: {
-            id: true,
-            vin: true,
-            car_model: true,
-            engine_cc: true,
-            weight: true,
-            manufacture_date: true,
-            price: true,
-            fuel_type: true,
-          }
-        }
-      } as any
+      include: invoiceInclude
     })
 
     if (!invoice) {
@@ -294,262 +426,451 @@ invoicesRouter.get('/:id', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req
   }
 })
 
+// GET /api/v1/invoices/:id/download?format=pdf|docx - Redirect to a presigned URL for the file
+invoicesRouter.get('/:id/download', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params
+    const format = (req.query.format as string) || 'docx'
+
+    if (format !== 'pdf' && format !== 'docx') {
+      return res.status(400).json({ success: false, error: 'format must be pdf or docx' })
+    }
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id },
+      select: { id: true, invoiceNumber: true, fileUrl: true, pdfUrl: true }
+    })
+
+    if (!invoice) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' })
+    }
+
+    let fileUrl = format === 'pdf' ? invoice.pdfUrl : invoice.fileUrl
+
+    // Invoices created before PDF renditions (or whose conversion failed) get one on first download
+    if (format === 'pdf' && !fileUrl && invoice.fileUrl) {
+      const pdf = await getDocumentProvider().generateInvoicePdf({ fileUrl: invoice.fileUrl }, invoice.invoiceNumber)
+      await prisma.invoice.update({
+        where: { id },
+        data: { pdfUrl: pdf.fileUrl, updatedAt: new Date() }
+      })
+      fileUrl = pdf.fileUrl
+    }
+
+    if (!fileUrl) {
+      return res.status(404).json({ success: false, error: 'Invoice file not found' })
+    }
+
+    const location = s3Service.isBucketUrl(fileUrl)
+      ? await s3Service.generatePresignedGetUrl(s3Service.extractKeyFromUrl(fileUrl), 900, `${invoice.invoiceNumber}.${format}`)
+      : fileUrl
+
+    return res.redirect(302, location)
+  } catch (error) {
+    console.error('Download invoice error:', error)
+    if (error instanceof DocumentProviderError) {
+      return res.status(error.status).json({ success: false, error: error.message })
+    }
+    return res.status(500).json({ success: false, error: 'Failed to download invoice' })
+  }
+})
+
 // POST /api/v1/invoices - Create invoice with Word generation
 invoicesRouter.post('/', requireRole(Role.SALES, Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
   try {
-    const {
-      companyId,
-      portInfoId,
-      country,
-      destination,
-      destinationCountry,
-      invoiceTemplateUrl,
-      carRecordId,
-      mode,
-      buyer,
-    } = CreateInvoiceSchema.parse(req.body)
+    const input = CreateInvoiceSchema.parse(req.body)
     const authorId = req.user!.id
 
-    // Generate invoice number: {COUNTRY_CODE}-{YYYYMMDD}-{SEQUENCE}
     const invoiceDate = new Date()
-    const invoiceNumber = await generateInvoiceNumber(country, invoiceDate)
-
-    // Fetch full company data
-    const company = await prisma.company.findUnique({
-      where: { id: companyId }
-    })
+    const { templateData, snapshot, invoiceTemplateId, consigneeId, lines, totals, pricing, carColumns } = await prepareInvoice(input, invoiceDate)
+
+    // Allocate the number and create the invoice in one short transaction: if the insert fails
+    // the sequence increment is rolled back, so numbers stay gap-free
+    const invoice = await prisma.$transaction(async (tx) => {
+      const invoiceNumber = await allocateInvoiceNumber(tx, input.country, invoiceDate)
+
+      // Create invoice record with car information
+      return tx.invoice.create({
+        data: {
+          id: crypto.randomUUID(),
+          invoiceNumber,
+          date: invoiceDate,
+          country: input.country,
+          data: snapshot as Prisma.InputJsonValue,
+          ...carColumns,
+          invoiceTemplateId,
+          consigneeId,
+          ...totals,
+          ...pricing,
+          Lines: createInvoiceLines(lines),
+          authorId,
+          updatedAt: new Date(),
+        },
+      })
+    }, { maxWait: 10_000 })
 
-    if (!company) {
-      return res.status(404).json({ success: false, error: 'Company not found' })
-    }
+    await attachInvoiceDocument(invoice.id, { ...templateData, invoice_no: invoice.invoiceNumber })
 
-    // Fetch full port info data
-    const portInfo = await prisma.portInfo.findUnique({
-      where: { id: portInfoId }
+    const createdInvoice = await prisma.invoice.findUniqueOrThrow({
+      where: { id: invoice.id },
+      include: invoiceInclude,
     })
 
-    if (!portInfo) {
-      return res.status(404).json({ success: false, error: 'Port info not found' })
+    return res.status(201).json({
+      success: true,
+      data: createdInvoice
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return res.status(409).json({ success: false, error: 'Invoice number already exists' })
+    }
+    if (error instanceof InvoiceSequenceOverflowError) {
+      return res.status(409).json({ success: false, error: error.message })
     }
+    if (error instanceof InvoiceCountryError) {
+      return res.status(400).json({ success: false, error: error.message })
+    }
+    if (error instanceof InvoiceBuildError || error instanceof DocumentProviderError) {
+      return sendInvoiceGenerationError(res, error)
+    }
+    console.error('Create invoice error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to create invoice' })
+  }
+})
 
-    // Fetch car record data if carRecordId is provided
-    let carRecord = null
-    if (carRecordId) {
-      carRecord = await prisma.carRecord.findUnique({
-        where: { id: carRecordId }
-      })
+// POST /api/v1/invoices/batch - Create invoices for a multi-car shipment
+invoicesRouter.post('/batch', requireRole(Role.SALES, Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
+  try {
+    const { carRecordIds, grouping, ...shared } = BatchInvoiceSchema.parse(req.body)
+    const authorId = req.user!.id
+    const invoiceDate = new Date()
+
+    const found = await prisma.carRecord.findMany({
+      where: { id: { in: carRecordIds } },
+      select: { id: true }
+    })
+    const foundIds = new Set(found.map((record) => record.id))
+    const results: BatchInvoiceResult[] = carRecordIds
+      .filter((id) => !foundIds.has(id))
+      .map((carRecordId) => ({ carRecordId, success: false, error: 'Car record not found' }))
+    const carIds = carRecordIds.filter((id) => foundIds.has(id))
+
+    if (carIds.length === 0) {
+      return res.status(422).json({ success: false, error: 'None of the car records were found', data: { results } })
     }
 
-    // Prepare invoice data for Python backend Word generation
-    // Map country names to official country names
-    const countryNameMap: Record<string, string> = {
-      'Russia': 'Russian Federation',
-      'Uzbekistan': 'Republic of Uzbekistan',
-      'Kazakhstan': 'Republic of Kazakhstan',
-      'Kyrgyzstan': 'Kyrgyz Republic',
-    }
-    const officialCountryName = destinationCountry || countryNameMap[buyer.country] || buyer.country || ''
-    
-    // Use fuel_type from car record (saved in database)
-    const fuelType = carRecord?.fuel_type || 'Gasoline'
-    
-    const carYearStr = carRecord?.manufacture_date
-      ? carRecord.manufacture_date.split('-')[0].trim().replace(/\D/g, '').slice(0, 4)
-      : ''
-    const carYear = carYearStr ? Number(carYearStr) : 0
-    const parseNumeric = (value?: string | null) => {
-      if (!value) return 0
-      const sanitized = value.toString().replace(/[^\d.]/g, '').trim()
-      return sanitized ? Number(sanitized) : 0
-    }
-
-    const invoiceData = {
-      shipper_name: company.name || '',
-      shipper_address: company.address || '',
-      shipper_tel: company.phone || '',
-      invoice_no: invoiceNumber,
-      invoice_date: invoiceDate.toISOString().split('T')[0],
-      destination_country: destinationCountry || officialCountryName,
-      destination: destination || country,
-      consignee_name: buyer.consignee_name || '',
-      consignee_address: buyer.consignee_address || '',
-      consignee_tel: buyer.consignee_tel || '',
-      consignee_iin: buyer.consignee_iin || '',
-      port_loading: portInfo.description || '',
-      port_name: portInfo.shortAddress || '',
-      sailing_date: invoiceDate.toISOString().split('T')[0],
-      car_year: carYear,
-      car_model: carRecord?.car_model || '',
-      volume: parseNumeric(carRecord?.engine_cc),
-      fuel_type: fuelType,
-      car_vin: carRecord?.vin || '',
-      unit_price: parseNumeric(carRecord?.price),
-      weight: parseNumeric(carRecord?.weight),
-      logo_image: company.logoUrl || '',
-      seal_image: company.sealUrl || '',
-      file_url: invoiceTemplateUrl,
-    }
-
-    console.log('=== CALLING PYTHON BACKEND FOR WORD GENERATION ===')
-    console.log('Invoice data:', JSON.stringify(invoiceData, null, 2))
-
-    // Call Python backend API to generate Word document
-    const pythonServerUrl = 'http://43.200.233.218:8000'
-    let fileUrl: string
-    
-    try {
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 60000) // 60 second timeout for Word generation
-      
-      try {
-        const response = await fetch(`${pythonServerUrl}/api/generate-docx`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
+    // Each entry becomes one invoice
+    const groups = grouping === 'combined' ? [carIds] : carIds.map((id) => [id])
+    const prepared = await Promise.all(
+      groups.map((ids) => prepareInvoice({ ...shared, carRecordIds: ids }, invoiceDate))
+    )
+
+    // All numbers are taken and the invoices created in one short transaction, so the batch gets
+    // consecutive numbers. Documents are rendered afterwards, one invoice at a time; an invoice whose
+    // document fails is cancelled (keeping its number) and reported, the others go ahead.
+    const reserved = await prisma.$transaction(async (tx) => {
+      const saved: { ids: string[]; invoiceId: string; invoiceNumber: string; templateData: InvoiceTemplateData }[] = []
+
+      for (const [index, { templateData, snapshot, invoiceTemplateId, consigneeId, lines, totals, pricing, carColumns }] of prepared.entries()) {
+        const invoiceNumber = await allocateInvoiceNumber(tx, shared.country, invoiceDate)
+
+        const invoice = await tx.invoice.create({
+          data: {
+            id: crypto.randomUUID(),
+            invoiceNumber,
+            date: invoiceDate,
+            country: shared.country,
+            data: snapshot as Prisma.InputJsonValue,
+            ...carColumns,
+            invoiceTemplateId,
+            consigneeId,
+            ...totals,
+            ...pricing,
+            Lines: createInvoiceLines(lines),
+            authorId,
+            updatedAt: new Date(),
           },
-          body: JSON.stringify(invoiceData),
-          signal: controller.signal,
         })
-        
-        clearTimeout(timeoutId)
-
-        if (!response.ok) {
-          const errorText = await response.text()
-          console.error('Python server error response:', errorText)
-          return res.status(response.status).json({
-            success: false,
-            error: errorText || 'Failed to generate Word document'
-          })
-        }
+        saved.push({ ids: groups[index], invoiceId: invoice.id, invoiceNumber, templateData: { ...templateData, invoice_no: invoiceNumber } })
+      }
 
-        const pythonResponse = await response.json()
-        console.log('Python server response:', JSON.stringify(pythonResponse, null, 2))
-        
-        // Python server returns: { "message": "...", "download_url": "..." }
-        fileUrl = pythonResponse.download_url
-        
-        if (!fileUrl) {
-          return res.status(500).json({
-            success: false,
-            error: 'Python server did not return download_url in response'
-          })
-        }
-        
-        console.log('✅ Word document generated successfully:', fileUrl)
-      } catch (fetchError: any) {
-        clearTimeout(timeoutId)
-        
-        if (fetchError.name === 'AbortError' || fetchError.message?.includes('aborted')) {
-          console.error('Python server request timed out after 60 seconds')
-          return res.status(504).json({
-            success: false,
-            error: 'Word generation request timed out. Please try again.'
-          })
-        }
-        
-        throw fetchError
+      return saved
+    }, { maxWait: 10_000 })
+
+    const created: typeof reserved = []
+    const failed: { ids: string[]; invoiceNumber: string; error: string; details?: string[] }[] = []
+    let unavailable: DocumentProviderError | undefined
+    for (const entry of reserved) {
+      // Once the generator is down the remaining invoices are not attempted
+      if (unavailable) {
+        await cancelUndocumentedInvoice(entry.invoiceId, unavailable.message)
+        failed.push({ ...entry, error: unavailable.message })
+        continue
       }
-    } catch (error: any) {
-      console.error('Word generation error:', error)
-      
-      // Handle network errors
-      if (error.code === 'ECONNREFUSED' || error.code === 'ETIMEDOUT') {
-        return res.status(503).json({
-          success: false,
-          error: 'Python server is unavailable. Please try again later.'
-        })
+
+      try {
+        await attachInvoiceDocument(entry.invoiceId, entry.templateData)
+        created.push(entry)
+      } catch (error) {
+        if (error instanceof DocumentProviderError) {
+          if (error.unavailable) unavailable = error
+          failed.push({ ...entry, error: error.message, details: error.details })
+        } else {
+          console.error('Batch invoice document error:', error)
+          failed.push({ ...entry, error: 'Failed to generate document' })
+        }
       }
-      
-      return res.status(500).json({
-        success: false,
-        error: `Failed to generate Word document: ${error?.message || 'Unknown error'}`
-      })
     }
 
-    // Store full invoice data as JSON (include car record for VIN access)
-    const invoiceJsonData = {
-      company,
-      portInfo,
-      buyer,
-      carRecord: carRecord ? {
-        id: carRecord.id,
-        vin: carRecord.vin,
-        car_model: carRecord.car_model,
-        engine_cc: carRecord.engine_cc,
-        weight: carRecord.weight,
-        manufacture_date: carRecord.manufacture_date,
-        price: carRecord.price,
-        fuel_type: carRecord.fuel_type,
-      } : null,
-      // Also include car_vin for easy access
-      car_vin: carRecord?.vin || '',
-      destination,
-      destinationCountry,
-      invoiceTemplateUrl,
-      mode,
-    }
-
-    // Create invoice record with car information
-    const invoice = await prisma.invoice.create({
+    const invoices = await prisma.invoice.findMany({
+      where: { id: { in: created.map((entry) => entry.invoiceId) } },
+      include: invoiceInclude,
+      orderBy: { invoiceNumber: 'asc' },
+    })
+
+    for (const { ids, invoiceId, invoiceNumber } of created) {
+      results.push(...ids.map((carRecordId) => ({ carRecordId, success: true, invoiceId, invoiceNumber })))
+    }
+    // Failed invoices keep their (cancelled) number, so it is reported too
+    for (const { ids, invoiceNumber, error, details } of failed) {
+      results.push(...ids.map((carRecordId) => ({ carRecordId, success: false, invoiceNumber, error, details })))
+    }
+    // Report in the order the cars were sent
+    results.sort((a, b) => carRecordIds.indexOf(a.carRecordId) - carRecordIds.indexOf(b.carRecordId))
+
+    return res.status(invoices.length > 0 ? 201 : 422).json({
+      success: invoices.length > 0,
       data: {
-        id: crypto.randomUUID(),
-        invoiceNumber,
-        date: invoiceDate,
-        country,
-        fileUrl,
-        data: invoiceJsonData as any,
-        // Car information fields
-        carRecordId: carRecord?.id || null,
-        carVin: carRecord?.vin || null,
-        carModel: carRecord?.car_model || null,
-        carYear: carRecord?.manufacture_date 
-          ? carRecord.manufacture_date.split('-')[0].trim().replace(/\D/g, '').slice(0, 4)
-          : null,
-        carWeight: carRecord?.weight || null,
-        carVolume: carRecord?.engine_cc || null,
-        carPrice: carRecord?.price || null,
-        carFuelType: fuelType || null,
-        authorId,
-        updatedAt: new Date(),
-      },
+        invoices,
+        results,
+      }
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return res.status(409).json({ success: false, error: 'Invoice number already exists' })
+    }
+    if (error instanceof InvoiceSequenceOverflowError) {
+      return res.status(409).json({ success: false, error: error.message })
+    }
+    if (error instanceof InvoiceCountryError) {
+      return res.status(400).json({ success: false, error: error.message })
+    }
+    if (error instanceof InvoiceBuildError || error instanceof DocumentProviderError) {
+      return sendInvoiceGenerationError(res, error)
+    }
+    console.error('Batch create invoices error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to create invoices' })
+  }
+})
+
+// PATCH /api/v1/invoices/:id - Edit invoice and regenerate its document under the same number
+invoicesRouter.patch('/:id', requireRole(Role.SALES, Role.SUPER_ADMIN), requireOwnerOrAdmin, async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params
+    const changes = UpdateInvoiceSchema.parse(req.body)
+
+    const existing = await prisma.invoice.findUnique({ where: { id } })
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' })
+    }
+
+    if (!isEditable(existing.status)) {
+      return res.status(409).json({ success: false, error: `${existing.status} invoices cannot be edited` })
+    }
+
+    // The number carries the country prefix, so the country is fixed once issued
+    if (changes.country && changes.country !== existing.country) {
+      return res.status(400).json({ success: false, error: 'Country cannot be changed after the invoice is issued' })
+    }
+
+    // Unchanged fields come from the stored snapshot; re-validate the merged result.
+    // Changing the car(s) without sending lines rebuilds the lines from the new cars.
+    const { exchangeRate, ...stored } = getInvoiceInput(existing)
+    const input = CreateInvoiceSchema.parse({
+      ...stored,
+      ...(changes.carRecordId || changes.carRecordIds ? { carRecordIds: undefined, lines: undefined } : {}),
+      ...(changes.invoiceTemplateUrl || changes.invoiceTemplateId ? { invoiceTemplateUrl: undefined, invoiceTemplateId: undefined } : {}),
+      // Picking a saved consignee replaces the stored buyer, an inline buyer unlinks the consignee
+      ...(changes.consigneeId ? { buyer: undefined } : {}),
+      ...(changes.buyer ? { consigneeId: undefined } : {}),
+      ...changes,
+      country: existing.country,
+    })
+    // Keep the rate the invoice was issued with unless its currencies change; a draft's rate is
+    // provisional and follows the rate table until the invoice is issued
+    const currenciesChanged = input.currency !== existing.currency || input.priceCurrency !== existing.priceCurrency
+    const keepRate = existing.status !== InvoiceStatus.DRAFT && !currenciesChanged
+    const prepared = await prepareInvoice({ ...input, exchangeRate: keepRate ? exchangeRate : undefined }, existing.date)
+
+    const invoice = await regenerateInvoice(existing, prepared, req.user!.id)
+
+    return res.json({
+      success: true,
+      data: invoice
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ success: false, error: error.errors })
+    }
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
+      return res.status(409).json({ success: false, error: 'Invoice was modified concurrently, please retry' })
+    }
+    if (error instanceof InvoiceBuildError || error instanceof DocumentProviderError) {
+      return sendInvoiceGenerationError(res, error)
+    }
+    console.error('Update invoice error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to update invoice' })
+  }
+})
+
+// GET /api/v1/invoices/:id/revisions - List previous versions of an invoice
+invoicesRouter.get('/:id/revisions', requireRole(Role.SUPER_ADMIN, Role.SALES), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id },
+      select: { id: true }
+    })
+
+    if (!invoice) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' })
+    }
+
+    const revisions = await prisma.invoiceRevision.findMany({
+      where: { invoiceId: id },
       include: {
-        User: {
+        // Null once the user who made the revision is deleted; the revision itself stays
+        RevisedBy: {
           select: {
             id: true,
             name: true,
             email: true,
             image: true,
           }
-        },
-        CarRecord: {
-          select: {
-            id: true,
-            vin: true,
-            car_model: true,
-            engine_cc: true,
-            weight: true,
-            manufacture_date: true,
-            price: true,
-            fuel_type: true,
-          }
         }
-      } as any
+      },
+      orderBy: { revision: 'desc' },
     })
 
-    return res.status(201).json({
+    return res.json({
       success: true,
-      data: invoice
+      data: revisions
     })
+  } catch (error) {
+    console.error('List invoice revisions error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to fetch invoice revisions' })
+  }
+})
+
+/**
+ * Move an invoice to another status, stamping the matching timestamp.
+ * The update is conditional on the status read, so concurrent changes cannot skip a check.
+ */
+async function changeInvoiceStatus(
+  req: AuthRequest,
+  res: Response,
+  to: Exclude<InvoiceStatus, 'DRAFT'>,
+  extra: Prisma.InvoiceUpdateManyMutationInput = {}
+) {
+  const { id } = req.params
+
+  const invoice = await prisma.invoice.findUnique({
+    where: { id },
+    select: { status: true }
+  })
+
+  if (!invoice) {
+    return res.status(404).json({ success: false, error: 'Invoice not found' })
+  }
+
+  if (!canTransition(invoice.status, to)) {
+    return res.status(409).json({ success: false, error: `Cannot change invoice status from ${invoice.status} to ${to}` })
+  }
+
+  const now = new Date()
+  const { count } = await prisma.invoice.updateMany({
+    where: { id, status: invoice.status },
+    data: {
+      ...extra,
+      status: to,
+      [STATUS_TIMESTAMP_FIELD[to]]: now,
+      updatedAt: now,
+    },
+  })
+
+  if (count === 0) {
+    return res.status(409).json({ success: false, error: 'Invoice status was changed concurrently, please retry' })
+  }
+
+  const updated = await prisma.invoice.findUnique({
+    where: { id },
+    include: invoiceInclude
+  })
+
+  return res.json({
+    success: true,
+    data: updated
+  })
+}
+
+// POST /api/v1/invoices/:id/issue - Mark a draft invoice as issued to the buyer
+invoicesRouter.post('/:id/issue', requireRole(Role.SALES, Role.SUPER_ADMIN), requireOwnerOrAdmin, async (req: AuthRequest, res) => {
+  try {
+    const invoice = await prisma.invoice.findUnique({ where: { id: req.params.id } })
+    if (!invoice) {
+      return res.status(404).json({ success: false, error: 'Invoice not found' })
+    }
+
+    // The exchange rate is snapshotted now; the draft's document is regenerated if the rate moved since
+    if (canTransition(invoice.status, InvoiceStatus.ISSUED)) {
+      const { exchangeRate: draftRate, ...stored } = getInvoiceInput(invoice)
+      const rate = await resolveExchangeRate(prisma, invoice.priceCurrency, invoice.currency, new Date())
+      if (rate.rate !== draftRate?.rate || rate.effectiveDate?.getTime() !== draftRate?.effectiveDate?.getTime()) {
+        await regenerateInvoice(invoice, await prepareInvoice({ ...stored, exchangeRate: rate }, invoice.date), req.user!.id)
+      }
+    }
+
+    return await changeInvoiceStatus(req, res, InvoiceStatus.ISSUED)
+  } catch (error) {
+    if (error instanceof ExchangeRateNotFoundError) {
+      return res.status(422).json({ success: false, error: error.message })
+    }
+    if (error instanceof InvoiceBuildError || error instanceof DocumentProviderError) {
+      return sendInvoiceGenerationError(res, error)
+    }
+    console.error('Issue invoice error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to issue invoice' })
+  }
+})
+
+// POST /api/v1/invoices/:id/pay - Mark an issued invoice as paid
+invoicesRouter.post('/:id/pay', requireRole(Role.SALES, Role.SUPER_ADMIN), requireOwnerOrAdmin, async (req: AuthRequest, res) => {
+  try {
+    return await changeInvoiceStatus(req, res, InvoiceStatus.PAID)
+  } catch (error) {
+    console.error('Pay invoice error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to mark invoice as paid' })
+  }
+})
+
+// POST /api/v1/invoices/:id/cancel - Cancel an invoice; it keeps its number
+invoicesRouter.post('/:id/cancel', requireRole(Role.SALES, Role.SUPER_ADMIN), requireOwnerOrAdmin, async (req: AuthRequest, res) => {
+  try {
+    const { reason } = CancelInvoiceSchema.parse(req.body)
+    return await changeInvoiceStatus(req, res, InvoiceStatus.CANCELLED, { cancelReason: reason })
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ success: false, error: error.errors })
     }
-    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2002') {
-      return res.status(409).json({ success: false, error: 'Invoice number already exists' })
-    }
-    console.error('Create invoice error:', error)
-    return res.status(500).json({ success: false, error: 'Failed to create invoice' })
+    console.error('Cancel invoice error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to cancel invoice' })
   }
 })
 
@@ -561,28 +882,41 @@ invoicesRouter.delete('/:id', requireOwnerOrAdmin, async (req: AuthRequest, res)
     // Get invoice to extract file URL for S3 cleanup
     const invoice = await prisma.invoice.findUnique({
       where: { id },
-      select: { fileUrl: true }
+      select: {
+        fileUrl: true,
+        pdfUrl: true,
+        Revisions: { select: { fileUrl: true, pdfUrl: true } }
+      }
     })
 
     if (!invoice) {
       return res.status(404).json({ success: false, error: 'Invoice not found' })
     }
 
-    // Delete Word file from S3 if it exists
-    if (invoice.fileUrl) {
+    // The status check is part of the delete, so an invoice paid meanwhile is kept
+    const { count } = await prisma.invoice.deleteMany({
+      where: { id, status: { not: InvoiceStatus.PAID } }
+    })
+
+    if (count === 0) {
+      const stillExists = await prisma.invoice.findUnique({ where: { id }, select: { id: true } })
+      return stillExists
+        ? res.status(409).json({ success: false, error: 'Paid invoices cannot be deleted' })
+        : res.status(404).json({ success: false, error: 'Invoice not found' })
+    }
+
+    // Delete Word and PDF files, including previous revisions, from S3 if they exist
+    const files = [invoice, ...invoice.Revisions].flatMap((version) => [version.fileUrl, version.pdfUrl])
+    for (const url of files) {
+      if (!url) continue
       try {
-        const fileKey = s3Service.extractKeyFromUrl(invoice.fileUrl)
+        const fileKey = s3Service.extractKeyFromUrl(url)
         await s3Service.deleteObject(fileKey)
       } catch (error) {
         console.error('Failed to delete invoice file from S3:', error)
       }
     }
 
-    // Delete invoice from database
-    await prisma.invoice.delete({
-      where: { id }
-    })
-
     return res.status(204).end()
   } catch (error) {
     console.error('Delete invoice error:', error)
@@ -0,0 +1,16 @@
+import { Router } from 'express'
+import { FUEL_TYPES, FUEL_TYPE_LABELS, TRANSMISSIONS, TRANSMISSION_LABELS, VOCABULARY_LANGUAGES } from '../lib/vehicle-vocabulary'
+
+export const publicVehicleVocabularyRouter = Router()
+
+// GET /api/v1/public/vehicle-vocabulary - Fuel type and transmission codes with their labels in every language
+publicVehicleVocabularyRouter.get('/', (req, res) => {
+  return res.json({
+    success: true,
+    data: {
+      languages: VOCABULARY_LANGUAGES,
+      fuelTypes: FUEL_TYPES.map((code) => ({ code, labels: FUEL_TYPE_LABELS[code] })),
+      transmissions: TRANSMISSIONS.map((code) => ({ code, labels: TRANSMISSION_LABELS[code] })),
+    }
+  })
+})
@@ -1,6 +1,10 @@
 import { Router } from 'express'
 import { requireAuth, requireRole, AuthRequest } from '../middleware/auth'
 import { prisma } from '../lib/prisma'
+import { invalidateUserAuthState } from '../lib/user-auth-state'
+import { PUBLIC_USER_SELECT } from '../lib/user-fields'
+import { revokeUserSessions } from '../lib/sessions'
+import { resetTwoFactor } from '../lib/two-factor'
 import { Role } from '@prisma/client'
 
 export const usersRouter = Router()
@@ -20,6 +24,7 @@ usersRouter.get('/', requireRole(Role.SUPER_ADMIN), async (req, res) => {
         orderBy: { createdAt: 'desc' },
         skip,
         take: limit,
+        select: PUBLIC_USER_SELECT,
       }),
       prisma.user.count()
     ])
@@ -46,13 +51,58 @@ usersRouter.patch('/:id/role', requireRole(Role.SUPER_ADMIN), async (req: AuthRe
   const { id } = req.params
   const { role } = req.body || {}
   if (!VALID_ROLES.includes(role)) return res.status(400).json({ success: false, error: 'Invalid role' })
-  const updated = await prisma.user.update({ where: { id }, data: { role } })
+  // Bumping the token version makes access tokens carrying the old role stop working at once
+  const updated = await prisma.user.update({ where: { id }, data: { role, tokenVersion: { increment: 1 } }, select: PUBLIC_USER_SELECT })
+  invalidateUserAuthState(id)
   return res.json({ success: true, data: updated })
 })
 
+// PATCH /api/v1/users/:id/status - Deactivate or reactivate a user; deactivation signs them out everywhere
+usersRouter.patch('/:id/status', requireRole(Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
+  const { id } = req.params
+  const { isActive } = req.body || {}
+  if (typeof isActive !== 'boolean') return res.status(400).json({ success: false, error: 'isActive must be a boolean' })
+  if (id === req.user.id && !isActive) {
+    return res.status(400).json({ success: false, error: 'You cannot deactivate your own account' })
+  }
+
+  try {
+    const updated = await prisma.user.update({
+      where: { id },
+      data: { isActive, tokenVersion: { increment: 1 }, updatedAt: new Date() },
+      select: PUBLIC_USER_SELECT,
+    })
+    invalidateUserAuthState(id)
+    if (!isActive) await revokeUserSessions(id)
+    return res.json({ success: true, data: updated })
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error && error.code === 'P2025') {
+      return res.status(404).json({ success: false, error: 'User not found' })
+    }
+    console.error('Update user status error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to update user status' })
+  }
+})
+
+// DELETE /api/v1/users/:id/2fa - Reset a user's two-factor authentication, e.g. after a lost phone; signs them out everywhere
+usersRouter.delete('/:id/2fa', requireRole(Role.SUPER_ADMIN), async (req: AuthRequest, res) => {
+  const { id } = req.params
+  try {
+    const user = await prisma.user.findUnique({ where: { id }, select: { id: true } })
+    if (!user) return res.status(404).json({ success: false, error: 'User not found' })
+
+    await resetTwoFactor(id)
+    return res.json({ success: true })
+  } catch (error) {
+    console.error('Reset two-factor error:', error)
+    return res.status(500).json({ success: false, error: 'Failed to reset two-factor authentication' })
+  }
+})
+
 usersRouter.delete('/:id', requireRole(Role.SUPER_ADMIN), async (req, res) => {
   const { id } = req.params
   await prisma.user.delete({ where: { id } })
+  invalidateUserAuthState(id)
   return res.status(204).end()
 })
 
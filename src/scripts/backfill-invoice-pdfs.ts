@@ -0,0 +1,52 @@
+import { PrismaClient } from '@prisma/client'
+import { getDocumentProvider } from '../lib/document-provider'
+
+const prisma = new PrismaClient()
+
+async function main() {
+  console.log('Starting invoice PDF backfill...')
+
+  const invoices = await prisma.invoice.findMany({
+    where: { pdfUrl: null, fileUrl: { not: null } },
+    select: {
+      id: true,
+      invoiceNumber: true,
+      fileUrl: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  console.log(`Found ${invoices.length} invoices without a PDF`)
+
+  const provider = getDocumentProvider()
+  let converted = 0
+  let failed = 0
+
+  // Conversions run one at a time; LibreOffice is CPU and memory heavy
+  for (const invoice of invoices) {
+    if (!invoice.fileUrl) continue
+    try {
+      const pdf = await provider.generateInvoicePdf({ fileUrl: invoice.fileUrl }, invoice.invoiceNumber)
+      await prisma.invoice.update({
+        where: { id: invoice.id },
+        data: { pdfUrl: pdf.fileUrl, updatedAt: new Date() },
+      })
+      converted++
+      console.log(`Converted ${invoice.invoiceNumber}: ${pdf.fileUrl}`)
+    } catch (error) {
+      failed++
+      console.error(`Failed to convert ${invoice.invoiceNumber}:`, error)
+    }
+  }
+
+  console.log(`Backfill complete! Converted ${converted}, failed ${failed} out of ${invoices.length} invoices.`)
+}
+
+main()
+  .catch((e) => {
+    console.error('Error during PDF backfill:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,115 @@
+import { PrismaClient, Prisma } from '@prisma/client'
+import crypto from 'crypto'
+import { parseEngineCc, parseWeightKg, parsePrice, parseManufactureDate, MAX_UNMARKED_PRICE } from '../lib/car-record-fields'
+import { FUEL_TYPES, FuelType, normalizeFuelType } from '../lib/vehicle-vocabulary'
+
+const prisma = new PrismaClient()
+
+// Pass --dry-run to only print the report
+const dryRun = process.argv.includes('--dry-run')
+
+interface UnparsedValue {
+  id: string
+  vin: string
+  field: string
+  value: string
+}
+
+async function main() {
+  console.log(`Starting car record conversion${dryRun ? ' (dry run)' : ''}...`)
+
+  // Rows with every typed column set and a vocabulary fuel type were converted before or written through the API since
+  const carRecords = await prisma.carRecord.findMany({
+    where: {
+      OR: [
+        { engineCc: null },
+        { weightKg: null },
+        { priceAmount: null },
+        { manufactureYear: null },
+        { fuel_type: { notIn: [...FUEL_TYPES] } },
+      ],
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  console.log(`Found ${carRecords.length} car records to convert`)
+
+  const unparsed: UnparsedValue[] = []
+  let updated = 0
+
+  for (const record of carRecords) {
+    const data: Prisma.CarRecordUpdateInput = {}
+    const issues: UnparsedValue[] = []
+    const report = (field: string, value: string) => issues.push({ id: record.id, vin: record.vin, field, value })
+
+    if (record.engineCc === null) {
+      const engineCc = parseEngineCc(record.engine_cc)
+      if (engineCc === null) report('engine_cc', record.engine_cc)
+      else data.engineCc = engineCc
+    }
+    if (record.weightKg === null) {
+      const weightKg = parseWeightKg(record.weight)
+      if (weightKg === null) report('weight', record.weight)
+      else data.weightKg = weightKg
+    }
+    if (record.priceAmount === null) {
+      const price = parsePrice(record.price)
+      if (price === null || (price.currency === null && price.amount >= MAX_UNMARKED_PRICE)) report('price', record.price)
+      else {
+        data.priceAmount = price.amount
+        if (price.currency) data.priceCurrency = price.currency
+      }
+    }
+    if (record.manufactureYear === null) {
+      const manufactureDate = parseManufactureDate(record.manufacture_date)
+      if (manufactureDate === null) report('manufacture_date', record.manufacture_date)
+      else {
+        data.manufactureYear = manufactureDate.year
+        data.manufactureMonth = manufactureDate.month
+      }
+    }
+
+    if (!FUEL_TYPES.includes(record.fuel_type as FuelType)) {
+      const fuelType = normalizeFuelType(record.fuel_type)
+      if (fuelType === null) report('fuel_type', record.fuel_type)
+      else data.fuel_type = fuelType
+    }
+
+    unparsed.push(...issues)
+    if (Object.keys(data).length > 0) updated++
+    if (dryRun) continue
+
+    // Legacy text is left as entered so unparsed values can still be fixed by hand;
+    // CarRecordConversionIssue keeps listing the ones still unparsed
+    await prisma.$transaction([
+      prisma.carRecord.update({
+        where: { id: record.id },
+        data,
+      }),
+      prisma.carRecordConversionIssue.deleteMany({ where: { carRecordId: record.id } }),
+      prisma.carRecordConversionIssue.createMany({
+        data: issues.map((issue) => ({ id: crypto.randomUUID(), carRecordId: record.id, field: issue.field, value: issue.value })),
+      }),
+    ])
+  }
+
+  if (unparsed.length > 0) {
+    console.log(`\n${unparsed.length} values could not be parsed and were left empty:`)
+    console.log('id\tvin\tfield\tvalue')
+    for (const entry of unparsed) {
+      console.log(`${entry.id}\t${entry.vin}\t${entry.field}\t${JSON.stringify(entry.value)}`)
+    }
+    console.log('')
+  }
+
+  console.log(`Conversion complete! ${dryRun ? 'Would update' : 'Updated'} ${updated} out of ${carRecords.length} records, ${unparsed.length} values unparsed.`)
+}
+
+main()
+  .catch((e) => {
+    console.error('Error during car record conversion:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,59 @@
+import { PrismaClient, Role } from '@prisma/client'
+import crypto from 'crypto'
+
+const prisma = new PrismaClient()
+
+// Usage: npm run create-super-admin -- --email admin@example.com [--name "Admin Name"]
+// Creates the account, or promotes and reactivates an existing one. Sign-in then works with
+// Google or, when enabled, a magic link to that address.
+const argument = (name: string) => {
+  const index = process.argv.indexOf(`--${name}`)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+async function main() {
+  const email = argument('email')?.trim().toLowerCase()
+  const name = argument('name')?.trim() || null
+  if (!email || !/^[^\s@]+@[^\s@]+$/.test(email)) {
+    console.error('Usage: npm run create-super-admin -- --email admin@example.com [--name "Admin Name"]')
+    process.exit(1)
+  }
+
+  const existing = await prisma.user.findFirst({ where: { email: { equals: email, mode: 'insensitive' } } })
+
+  if (existing) {
+    // A new token version ends access tokens issued under the old role
+    await prisma.user.update({
+      where: { id: existing.id },
+      data: {
+        role: Role.SUPER_ADMIN,
+        isActive: true,
+        ...(name ? { name } : {}),
+        tokenVersion: { increment: 1 },
+        updatedAt: new Date(),
+      },
+    })
+    console.log(`${existing.email} was ${existing.role}${existing.isActive ? '' : ' (deactivated)'} and is now an active SUPER_ADMIN`)
+    return
+  }
+
+  await prisma.user.create({
+    data: {
+      id: crypto.randomUUID(),
+      email,
+      name,
+      role: Role.SUPER_ADMIN,
+      updatedAt: new Date(),
+    },
+  })
+  console.log(`Created SUPER_ADMIN ${email}`)
+}
+
+main()
+  .catch((e) => {
+    console.error('Error creating super admin:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })